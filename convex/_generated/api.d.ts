@@ -13,10 +13,27 @@ import type {
   FilterApi,
   FunctionReference,
 } from "convex/server";
+import type * as apiTokens from "../apiTokens.js";
 import type * as auth from "../auth.js";
+import type * as duplicates from "../duplicates.js";
+import type * as eqPresets from "../eqPresets.js";
+import type * as equalizer from "../equalizer.js";
 import type * as http from "../http.js";
+import type * as likes from "../likes.js";
+import type * as loudness from "../loudness.js";
+import type * as playlistFormats from "../playlistFormats.js";
+import type * as playlists from "../playlists.js";
+import type * as plays from "../plays.js";
+import type * as restApi from "../restApi.js";
+import type * as roles from "../roles.js";
 import type * as router from "../router.js";
+import type * as seed from "../seed.js";
+import type * as shuffle from "../shuffle.js";
+import type * as smartPlaylists from "../smartPlaylists.js";
+import type * as trackValidation from "../trackValidation.js";
 import type * as tracks from "../tracks.js";
+import type * as waveform from "../waveform.js";
+import type * as waveforms from "../waveforms.js";
 
 /**
  * A utility for referencing Convex functions in your app's API.
@@ -27,10 +44,27 @@ import type * as tracks from "../tracks.js";
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  apiTokens: typeof apiTokens;
   auth: typeof auth;
+  duplicates: typeof duplicates;
+  eqPresets: typeof eqPresets;
+  equalizer: typeof equalizer;
   http: typeof http;
+  likes: typeof likes;
+  loudness: typeof loudness;
+  playlistFormats: typeof playlistFormats;
+  playlists: typeof playlists;
+  plays: typeof plays;
+  restApi: typeof restApi;
+  roles: typeof roles;
   router: typeof router;
+  seed: typeof seed;
+  shuffle: typeof shuffle;
+  smartPlaylists: typeof smartPlaylists;
+  trackValidation: typeof trackValidation;
   tracks: typeof tracks;
+  waveform: typeof waveform;
+  waveforms: typeof waveforms;
 }>;
 export declare const api: FilterApi<
   typeof fullApi,
@@ -0,0 +1,67 @@
+import { query, mutation } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+
+const TOKEN_PREFIX = "mlk_";
+
+// Hex-encoded SHA-256, used to look tokens up without storing them
+export async function hashApiToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export const listMyApiTokens = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+    const tokens = await ctx.db
+      .query("apiTokens")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+    // Never send the hash back to the client
+    return tokens.map(({ _id, name, prefix, createdAt }) => ({ _id, name, prefix, createdAt }));
+  },
+});
+
+// Create a token; the secret is returned once and cannot be read again
+export const createApiToken = mutation({
+  args: { name: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+    const name = args.name.trim();
+    if (name === "") {
+      throw new Error("Token name cannot be empty");
+    }
+    const bytes = crypto.getRandomValues(new Uint8Array(24));
+    const token = TOKEN_PREFIX + [...bytes].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+    await ctx.db.insert("apiTokens", {
+      userId,
+      name,
+      tokenHash: await hashApiToken(token),
+      prefix: token.slice(0, TOKEN_PREFIX.length + 6),
+      createdAt: Date.now(),
+    });
+    return token;
+  },
+});
+
+export const revokeApiToken = mutation({
+  args: { tokenId: v.id("apiTokens") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+    const token = await ctx.db.get(args.tokenId);
+    if (!token || token.userId !== userId) {
+      throw new Error("Token not found");
+    }
+    return await ctx.db.delete(args.tokenId);
+  },
+});
@@ -0,0 +1,140 @@
+import { query, mutation } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { requireRole } from "./roles";
+import { buildDedupeKey, DUPLICATE_DURATION_TOLERANCE, withFileUrls } from "./tracks";
+import { deleteWaveform } from "./waveforms";
+
+// Groups of tracks that look like the same recording (admins only)
+export const possibleDuplicates = query({
+  args: {},
+  handler: async (ctx) => {
+    await requireRole(ctx, "admin");
+    const tracks = await ctx.db.query("tracks").collect();
+
+    // Union-find over tracks linked by a shared audio URL or by the same key and a close duration
+    const parent = new Map<Id<"tracks">, Id<"tracks">>(tracks.map((track) => [track._id, track._id]));
+    const find = (id: Id<"tracks">): Id<"tracks"> => {
+      const root = parent.get(id) ?? id;
+      if (root === id) return id;
+      const top = find(root);
+      parent.set(id, top);
+      return top;
+    };
+    const union = (a: Id<"tracks">, b: Id<"tracks">) => parent.set(find(a), find(b));
+
+    const byUrl = new Map<string, Doc<"tracks">>();
+    const byKey = new Map<string, Doc<"tracks">[]>();
+    for (const track of tracks) {
+      if (track.audioUrl) {
+        const first = byUrl.get(track.audioUrl);
+        if (first) union(first._id, track._id);
+        else byUrl.set(track.audioUrl, track);
+      }
+      const key = buildDedupeKey(track);
+      byKey.set(key, [...(byKey.get(key) ?? []), track]);
+    }
+    for (const sameKey of byKey.values()) {
+      // Sorted by duration, neighbours within the tolerance chain into one group
+      sameKey.sort((a, b) => a.duration - b.duration);
+      for (let i = 1; i < sameKey.length; i++) {
+        if (sameKey[i].duration - sameKey[i - 1].duration <= DUPLICATE_DURATION_TOLERANCE) {
+          union(sameKey[i - 1]._id, sameKey[i]._id);
+        }
+      }
+    }
+
+    const groups = new Map<Id<"tracks">, Doc<"tracks">[]>();
+    for (const track of tracks) {
+      const root = find(track._id);
+      groups.set(root, [...(groups.get(root) ?? []), track]);
+    }
+    return await Promise.all(
+      [...groups.values()].filter((group) => group.length > 1).map((group) => withFileUrls(ctx, group))
+    );
+  },
+});
+
+// Merge duplicates into the survivor: playlist entries, plays and likes are moved
+// over to it, then the duplicates and their stored files are deleted
+export const mergeTracks = mutation({
+  args: {
+    survivorId: v.id("tracks"),
+    duplicateIds: v.array(v.id("tracks")),
+  },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, "admin");
+    const survivor = await ctx.db.get(args.survivorId);
+    if (!survivor) {
+      throw new Error("Track not found");
+    }
+    const duplicateIds = new Set(args.duplicateIds);
+    if (duplicateIds.has(args.survivorId)) {
+      throw new Error("The surviving track cannot also be merged away");
+    }
+    const duplicates: Doc<"tracks">[] = [];
+    for (const trackId of duplicateIds) {
+      const track = await ctx.db.get(trackId);
+      if (!track) {
+        throw new Error("Track not found");
+      }
+      duplicates.push(track);
+    }
+
+    // Playlists have no index on their track list, so every one is checked
+    let playlistsUpdated = 0;
+    for (const playlist of await ctx.db.query("playlists").collect()) {
+      if (playlist.trackIds.some((trackId) => duplicateIds.has(trackId))) {
+        await ctx.db.patch(playlist._id, {
+          trackIds: playlist.trackIds.map((trackId) => (duplicateIds.has(trackId) ? args.survivorId : trackId)),
+        });
+        playlistsUpdated++;
+      }
+    }
+
+    let playsMoved = 0;
+    let likesMoved = 0;
+    for (const duplicate of duplicates) {
+      const plays = await ctx.db
+        .query("plays")
+        .withIndex("by_track", (q) => q.eq("trackId", duplicate._id))
+        .collect();
+      for (const play of plays) {
+        await ctx.db.patch(play._id, { trackId: args.survivorId });
+        playsMoved++;
+      }
+
+      const likes = await ctx.db
+        .query("likes")
+        .withIndex("by_track", (q) => q.eq("trackId", duplicate._id))
+        .collect();
+      for (const like of likes) {
+        // A user who liked both keeps one like, dated from the earlier of the two
+        const existing = await ctx.db
+          .query("likes")
+          .withIndex("by_user_and_trackId", (q) => q.eq("userId", like.userId).eq("trackId", args.survivorId))
+          .unique();
+        if (existing) {
+          if (like.likedAt < existing.likedAt) {
+            await ctx.db.patch(existing._id, { likedAt: like.likedAt });
+          }
+          await ctx.db.delete(like._id);
+        } else {
+          await ctx.db.patch(like._id, { trackId: args.survivorId });
+          likesMoved++;
+        }
+      }
+
+      if (duplicate.storageId && duplicate.storageId !== survivor.storageId) {
+        await ctx.storage.delete(duplicate.storageId);
+      }
+      if (duplicate.coverStorageId && duplicate.coverStorageId !== survivor.coverStorageId) {
+        await ctx.storage.delete(duplicate.coverStorageId);
+      }
+      await deleteWaveform(ctx, duplicate._id);
+      await ctx.db.delete(duplicate._id);
+    }
+
+    return { merged: duplicates.length, playlistsUpdated, playsMoved, likesMoved };
+  },
+});
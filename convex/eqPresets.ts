@@ -0,0 +1,68 @@
+import { query, mutation } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { BUILT_IN_EQ_PRESETS, checkEqSettings } from "./equalizer";
+
+export const listMyEqPresets = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+    return await ctx.db
+      .query("eqPresets")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+  },
+});
+
+// Save a custom preset; saving under an existing name overwrites it
+export const saveEqPreset = mutation({
+  args: {
+    name: v.string(),
+    preamp: v.number(),
+    gains: v.array(v.number()),
+    genre: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+    const name = args.name.trim();
+    if (name === "") {
+      throw new Error("Preset name cannot be empty");
+    }
+    if (BUILT_IN_EQ_PRESETS.some((preset) => preset.name.toLowerCase() === name.toLowerCase())) {
+      throw new Error(`"${name}" is a built-in preset`);
+    }
+    const error = checkEqSettings(args);
+    if (error) {
+      throw new Error(error);
+    }
+    const preset = { ...args, name, genre: args.genre?.trim() || undefined };
+
+    const existing = await ctx.db
+      .query("eqPresets")
+      .withIndex("by_user_and_name", (q) => q.eq("userId", userId).eq("name", name))
+      .unique();
+    if (existing) {
+      await ctx.db.replace(existing._id, { ...preset, userId });
+      return existing._id;
+    }
+    return await ctx.db.insert("eqPresets", { ...preset, userId });
+  },
+});
+
+export const deleteEqPreset = mutation({
+  args: { presetId: v.id("eqPresets") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    const preset = await ctx.db.get(args.presetId);
+    if (!userId || !preset || preset.userId !== userId) {
+      throw new Error("Preset not found");
+    }
+    return await ctx.db.delete(args.presetId);
+  },
+});
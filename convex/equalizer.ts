@@ -0,0 +1,40 @@
+// 10-band equalizer settings, shared by the player and the preset functions
+
+// Centre frequencies in Hz; the first band is a low shelf and the last a high shelf
+export const EQ_BANDS = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+
+// Band gains and the preamp are in dB within this range
+export const EQ_MAX_GAIN_DB = 12;
+
+export interface EqSettings {
+  preamp: number;
+  gains: number[];
+}
+
+export interface EqPreset extends EqSettings {
+  name: string;
+}
+
+// Presets named after a genre are applied automatically to tracks of that genre
+export const BUILT_IN_EQ_PRESETS: EqPreset[] = [
+  { name: "Flat", preamp: 0, gains: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0] },
+  { name: "Bass Boost", preamp: -5, gains: [6, 5, 4, 2, 0, 0, 0, 0, 0, 0] },
+  { name: "Vocal", preamp: -3, gains: [-2, -2, -1, 1, 3, 4, 3, 1, 0, -1] },
+  { name: "Pop", preamp: -3, gains: [-1, 1, 3, 4, 3, 0, -1, -1, 1, 2] },
+  { name: "Soul", preamp: -2, gains: [3, 3, 2, 1, -1, -1, 1, 2, 2, 2] },
+  { name: "Funk", preamp: -3, gains: [4, 4, 2, 0, -1, 1, 2, 3, 2, 1] },
+];
+
+export const FLAT_EQ: EqSettings = BUILT_IN_EQ_PRESETS[0];
+
+// Returns an error message, or null if the settings can be applied
+export function checkEqSettings(settings: EqSettings): string | null {
+  if (settings.gains.length !== EQ_BANDS.length) {
+    return `An equalizer preset needs exactly ${EQ_BANDS.length} band gains`;
+  }
+  const inRange = (db: number) => Number.isFinite(db) && Math.abs(db) <= EQ_MAX_GAIN_DB;
+  if (!inRange(settings.preamp) || !settings.gains.every(inRange)) {
+    return `Gains must be between -${EQ_MAX_GAIN_DB} and ${EQ_MAX_GAIN_DB} dB`;
+  }
+  return null;
+}
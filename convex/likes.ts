@@ -0,0 +1,79 @@
+import { query, mutation } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { withFileUrl } from "./tracks";
+
+// Like or unlike a track; returns whether it is liked afterwards
+export const toggleLike = mutation({
+  args: { trackId: v.id("tracks") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+    const existing = await ctx.db
+      .query("likes")
+      .withIndex("by_user_and_trackId", (q) =>
+        q.eq("userId", userId).eq("trackId", args.trackId)
+      )
+      .unique();
+
+    if (existing) {
+      await ctx.db.delete(existing._id);
+      return false;
+    }
+
+    const track = await ctx.db.get(args.trackId);
+    if (!track) {
+      throw new Error("Track not found");
+    }
+    await ctx.db.insert("likes", {
+      userId,
+      trackId: args.trackId,
+      likedAt: Date.now(),
+    });
+    return true;
+  },
+});
+
+// IDs of every track the signed-in user likes (for the heart icons)
+export const listLikedTrackIds = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+    const likes = await ctx.db
+      .query("likes")
+      .withIndex("by_user_and_trackId", (q) => q.eq("userId", userId))
+      .collect();
+    return likes.map((like) => like.trackId);
+  },
+});
+
+// The virtual "Liked Songs" playlist, most recently liked first
+export const getLikedTracks = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+    const likes = await ctx.db
+      .query("likes")
+      .withIndex("by_user_and_likedAt", (q) => q.eq("userId", userId))
+      .order("desc")
+      .collect();
+
+    const tracks = [];
+    for (const like of likes) {
+      const track = await ctx.db.get(like.trackId);
+      // Skip tracks that were deleted from the library
+      if (track) {
+        tracks.push(await withFileUrl(ctx, track));
+      }
+    }
+    return tracks;
+  },
+});
@@ -0,0 +1,73 @@
+// ReplayGain-style loudness normalization, shared by the player and the track functions
+
+export interface TrackLoudness {
+  integratedLufs: number;
+  peak: number;
+}
+
+// off: play as mastered, track: every track at the reference level,
+// playlist: one gain for the whole list, so quiet songs stay quieter than loud ones
+export type NormalizationMode = "off" | "track" | "playlist";
+
+// ReplayGain 2.0 reference level
+export const REFERENCE_LUFS = -18;
+
+// Quietest level the gated measurement can report (BS.1770 absolute gate)
+export const SILENCE_LUFS = -70;
+
+// Range of measurements accepted for storage; anything quieter is not music to normalize
+export const MIN_TRACK_LUFS = -50;
+export const MAX_TRACK_LUFS = 0;
+// Decoded audio is float, so peaks somewhat above full scale are possible
+export const MAX_TRACK_PEAK = 4;
+
+// Upper bound on the gain, whatever the measurement says (+12 dB)
+export const MAX_NORMALIZATION_GAIN = Math.pow(10, 12 / 20);
+
+// Returns an error message, or null if the measurement is plausible
+export function checkLoudness(loudness: TrackLoudness): string | null {
+  const { integratedLufs, peak } = loudness;
+  if (!Number.isFinite(integratedLufs) || integratedLufs < MIN_TRACK_LUFS || integratedLufs > MAX_TRACK_LUFS) {
+    return `Integrated loudness must be between ${MIN_TRACK_LUFS} and ${MAX_TRACK_LUFS} LUFS`;
+  }
+  if (!Number.isFinite(peak) || peak <= 0 || peak > MAX_TRACK_PEAK) {
+    return `Peak must be above 0 and at most ${MAX_TRACK_PEAK}`;
+  }
+  return null;
+}
+
+// Loudness of several tracks played as one program: energy average, highest peak
+export function combineLoudness(tracks: (TrackLoudness | undefined)[]): TrackLoudness | null {
+  const measured = tracks.filter((track): track is TrackLoudness => track !== undefined);
+  if (measured.length === 0) return null;
+  const energy = measured.reduce((sum, track) => sum + Math.pow(10, track.integratedLufs / 10), 0);
+  return {
+    integratedLufs: 10 * Math.log10(energy / measured.length),
+    peak: Math.max(...measured.map(track => track.peak)),
+  };
+}
+
+// Linear gain bringing the loudness to the reference level, lowered if the peak would
+// clip and never above MAX_NORMALIZATION_GAIN
+export function normalizationGain(loudness: TrackLoudness): number {
+  const gain = Math.pow(10, (REFERENCE_LUFS - loudness.integratedLufs) / 20);
+  // A zero peak is silence or a bad measurement: leave the level alone rather than boost
+  const peakLimit = loudness.peak > 0 ? 1 / loudness.peak : 1;
+  return Math.min(gain, peakLimit, MAX_NORMALIZATION_GAIN);
+}
+
+// Gain for one track in the given mode; unmeasured tracks play unchanged in track mode
+export function trackGain(
+  mode: NormalizationMode,
+  track: TrackLoudness | undefined,
+  playlist: TrackLoudness | null
+): number {
+  if (mode === "track" && track) return normalizationGain(track);
+  if (mode === "playlist" && playlist) {
+    // Clipping protection still has to hold for this track's own peak; an unmeasured
+    // track is never boosted, since its peak is unknown
+    const gain = normalizationGain(playlist);
+    return track && track.peak > 0 ? Math.min(gain, 1 / track.peak) : Math.min(gain, 1);
+  }
+  return 1;
+}
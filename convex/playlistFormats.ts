@@ -0,0 +1,85 @@
+// Playlist file exporters (extended M3U/M3U8, PLS and XSPF), shared by the
+// client downloads and the HTTP API
+
+// The track fields the exporters need; TrackNode and Convex track documents both fit
+export interface ExportableTrack {
+  title: string;
+  artist: string;
+  duration: number;
+  audioUrl: string;
+  coverUrl?: string;
+}
+
+// "Artist - Title" is how M3U and PLS carry the display name
+function displayName(track: ExportableTrack): string {
+  return `${track.artist} - ${track.title}`;
+}
+
+export function exportM3U(tracks: ExportableTrack[]): string {
+  const lines = ["#EXTM3U"];
+  for (const track of tracks) {
+    lines.push(`#EXTINF:${Math.round(track.duration)},${displayName(track)}`);
+    lines.push(track.audioUrl);
+  }
+  return lines.join("\n") + "\n";
+}
+
+export function exportPLS(tracks: ExportableTrack[]): string {
+  const lines = ["[playlist]"];
+  tracks.forEach((track, index) => {
+    const number = index + 1;
+    lines.push(`File${number}=${track.audioUrl}`);
+    lines.push(`Title${number}=${displayName(track)}`);
+    lines.push(`Length${number}=${Math.round(track.duration)}`);
+  });
+  lines.push(`NumberOfEntries=${tracks.length}`, "Version=2");
+  return lines.join("\n") + "\n";
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Percent-encode only what may not appear in a URI (spaces, non-ASCII, stray %), so
+// URLs that are already encoded come out unchanged instead of being encoded twice
+export function toUri(url: string): string {
+  return url.replace(/%(?![0-9A-Fa-f]{2})|[^A-Za-z0-9\-._~:/?#[\]@!$&'()*+,;=%]/gu, (char) =>
+    encodeURIComponent(char)
+  );
+}
+
+// The form an exported URL was stored in before toUri, where that differs
+export function fromUri(uri: string): string {
+  try {
+    return decodeURI(uri);
+  } catch {
+    return uri;
+  }
+}
+
+// XSPF durations are in milliseconds
+export function exportXSPF(title: string, tracks: ExportableTrack[]): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+    `  <title>${escapeXml(title)}</title>`,
+    "  <trackList>",
+  ];
+  for (const track of tracks) {
+    lines.push("    <track>");
+    lines.push(`      <location>${escapeXml(toUri(track.audioUrl))}</location>`);
+    lines.push(`      <title>${escapeXml(track.title)}</title>`);
+    lines.push(`      <creator>${escapeXml(track.artist)}</creator>`);
+    lines.push(`      <duration>${Math.round(track.duration * 1000)}</duration>`);
+    if (track.coverUrl) {
+      lines.push(`      <image>${escapeXml(toUri(track.coverUrl))}</image>`);
+    }
+    lines.push("    </track>");
+  }
+  lines.push("  </trackList>", "</playlist>");
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,255 @@
+import { query, mutation, QueryCtx, MutationCtx } from "./_generated/server";
+import { v, Infer } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { findDuplicates, insertTrack, withFileUrl } from "./tracks";
+import { getRole, hasRole } from "./roles";
+import { fromUri } from "./playlistFormats";
+import { getTrackFieldErrors, TrackInput, validateNewTrack } from "./trackValidation";
+
+// Load a playlist and make sure the signed-in user owns it
+async function getOwnedPlaylist(ctx: QueryCtx, playlistId: Id<"playlists">) {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) {
+    throw new Error("Not authenticated");
+  }
+  const playlist = await ctx.db.get(playlistId);
+  if (!playlist || playlist.userId !== userId) {
+    throw new Error("Playlist not found");
+  }
+  return playlist;
+}
+
+export const listMyPlaylists = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+    return await ctx.db
+      .query("playlists")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+  },
+});
+
+// Get the tracks of a playlist in playlist order (owner or public only)
+export const getPlaylistTracks = query({
+  args: { playlistId: v.id("playlists") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    const playlist = await ctx.db.get(args.playlistId);
+    if (!playlist || (!playlist.isPublic && playlist.userId !== userId)) {
+      return null;
+    }
+
+    return await loadPlaylistTracks(ctx, playlist);
+  },
+});
+
+// The playlist's tracks in order, skipping tracks that were deleted from the library
+export async function loadPlaylistTracks(ctx: QueryCtx, playlist: Doc<"playlists">) {
+  const tracks = [];
+  for (const trackId of playlist.trackIds) {
+    const track = await ctx.db.get(trackId);
+    if (track) {
+      tracks.push(await withFileUrl(ctx, track));
+    }
+  }
+  return tracks;
+}
+
+export const createPlaylist = mutation({
+  args: {
+    name: v.string(),
+    isPublic: v.optional(v.boolean()),
+    trackIds: v.optional(v.array(v.id("tracks"))),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+    const name = args.name.trim();
+    if (name === "") {
+      throw new Error("Playlist name cannot be empty");
+    }
+    return await ctx.db.insert("playlists", {
+      name,
+      userId,
+      trackIds: args.trackIds ?? [],
+      isPublic: args.isPublic ?? false,
+    });
+  },
+});
+
+export const renamePlaylist = mutation({
+  args: { playlistId: v.id("playlists"), name: v.string() },
+  handler: async (ctx, args) => {
+    await getOwnedPlaylist(ctx, args.playlistId);
+    const name = args.name.trim();
+    if (name === "") {
+      throw new Error("Playlist name cannot be empty");
+    }
+    return await ctx.db.patch(args.playlistId, { name });
+  },
+});
+
+export const deletePlaylist = mutation({
+  args: { playlistId: v.id("playlists") },
+  handler: async (ctx, args) => {
+    await getOwnedPlaylist(ctx, args.playlistId);
+    return await ctx.db.delete(args.playlistId);
+  },
+});
+
+export const addTrackToPlaylist = mutation({
+  args: { playlistId: v.id("playlists"), trackId: v.id("tracks") },
+  handler: async (ctx, args) => {
+    const playlist = await getOwnedPlaylist(ctx, args.playlistId);
+    const track = await ctx.db.get(args.trackId);
+    if (!track) {
+      throw new Error("Track not found");
+    }
+    return await ctx.db.patch(args.playlistId, {
+      trackIds: [...playlist.trackIds, args.trackId],
+    });
+  },
+});
+
+// Remove the track at `index`, or every occurrence of it when no index is given
+export const removeTrackFromPlaylist = mutation({
+  args: {
+    playlistId: v.id("playlists"),
+    trackId: v.id("tracks"),
+    index: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const playlist = await getOwnedPlaylist(ctx, args.playlistId);
+    const trackIds =
+      args.index === undefined
+        ? playlist.trackIds.filter((id) => id !== args.trackId)
+        : playlist.trackIds.filter(
+            (id, i) => !(i === args.index && id === args.trackId)
+          );
+    return await ctx.db.patch(args.playlistId, { trackIds });
+  },
+});
+
+// Replace the playlist's tracks with the player's edited list (reordered, with tracks
+// added or removed), so every edit and its undo is a single write
+export const setPlaylistTracks = mutation({
+  args: { playlistId: v.id("playlists"), trackIds: v.array(v.id("tracks")) },
+  handler: async (ctx, args) => {
+    await getOwnedPlaylist(ctx, args.playlistId);
+    for (const trackId of new Set(args.trackIds)) {
+      if (!(await ctx.db.get(trackId))) {
+        throw new Error("Track not found");
+      }
+    }
+    return await ctx.db.patch(args.playlistId, { trackIds: args.trackIds });
+  },
+});
+
+// One entry parsed from an M3U/PLS/XSPF file by the client
+const importedEntry = v.object({
+  line: v.number(),
+  location: v.optional(v.string()),
+  title: v.optional(v.string()),
+  artist: v.optional(v.string()),
+  duration: v.optional(v.number()),
+  image: v.optional(v.string()),
+});
+
+// Match an entry to a library track by URL (as written, or decoded for URLs that were
+// stored unencoded and escaped on export), then by artist + title
+async function findImportedTrack(ctx: MutationCtx, entry: Infer<typeof importedEntry>) {
+  if (entry.location) {
+    for (const audioUrl of new Set([entry.location, fromUri(entry.location)])) {
+      const byUrl = await ctx.db
+        .query("tracks")
+        .withIndex("by_audioUrl", (q) => q.eq("audioUrl", audioUrl))
+        .first();
+      if (byUrl) return byUrl;
+    }
+  }
+  const { artist, title } = entry;
+  if (artist && title) {
+    return await ctx.db
+      .query("tracks")
+      .withIndex("by_artist_and_title", (q) => q.eq("artist", artist).eq("title", title))
+      .first();
+  }
+  return null;
+}
+
+// Create a playlist from imported entries; entries that match no track and cannot be
+// created (no playable URL, invalid track data, or the user is not a curator) are
+// reported back by line number
+export const importPlaylist = mutation({
+  args: { name: v.string(), entries: v.array(importedEntry) },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+    const name = args.name.trim();
+    if (name === "") {
+      throw new Error("Playlist name cannot be empty");
+    }
+
+    // Listeners can only import tracks that are already in the library
+    const canAddTracks = hasRole(await getRole(ctx, userId), "curator");
+    const trackIds: Id<"tracks">[] = [];
+    const unresolved: { line: number; reason: string }[] = [];
+    let matched = 0;
+    let created = 0;
+
+    for (const entry of args.entries) {
+      const track = await findImportedTrack(ctx, entry);
+      if (track) {
+        trackIds.push(track._id);
+        matched++;
+      } else if (canAddTracks && entry.location && /^https?:\/\//i.test(entry.location)) {
+        // Same checks as addTrack; entries without a known duration are rejected too
+        let input: TrackInput;
+        try {
+          input = validateNewTrack({
+            title: entry.title || entry.location.split("/").pop() || "Untitled",
+            artist: entry.artist || "Unknown Artist",
+            duration: Math.round(entry.duration ?? 0),
+            audioUrl: entry.location,
+            coverUrl: entry.image,
+          });
+        } catch (error) {
+          const errors = getTrackFieldErrors(error);
+          if (!errors) throw error;
+          unresolved.push({ line: entry.line, reason: `Invalid track: ${Object.values(errors).join("; ")}` });
+          continue;
+        }
+        // A likely copy of a library track is used instead of adding the track again
+        const [duplicate] = await findDuplicates(ctx, input);
+        if (duplicate) {
+          trackIds.push(duplicate._id);
+          matched++;
+        } else {
+          trackIds.push(await insertTrack(ctx, input));
+          created++;
+        }
+      } else {
+        unresolved.push({
+          line: entry.line,
+          reason: !entry.location
+            ? "No location"
+            : canAddTracks
+              ? `Not in the library and not a web URL: ${entry.location}`
+              : `Not in the library: ${entry.location}`,
+        });
+      }
+    }
+
+    const playlistId = await ctx.db.insert("playlists", { name, userId, trackIds, isPublic: false });
+    return { playlistId, matched, created, unresolved };
+  },
+});
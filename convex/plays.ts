@@ -0,0 +1,121 @@
+import { query, mutation } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { Doc } from "./_generated/dataModel";
+import { withFileUrl } from "./tracks";
+
+// Record one listening session, reported by the player when a track ends or is left
+export const recordPlay = mutation({
+  args: {
+    trackId: v.id("tracks"),
+    startedAt: v.number(),
+    secondsListened: v.number(),
+    completed: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+    const track = await ctx.db.get(args.trackId);
+    if (!track) {
+      throw new Error("Track not found");
+    }
+    return await ctx.db.insert("plays", {
+      userId,
+      trackId: args.trackId,
+      startedAt: args.startedAt,
+      secondsListened: Math.max(0, args.secondsListened),
+      completed: args.completed,
+      skipped: !args.completed,
+    });
+  },
+});
+
+type Tally = { plays: number; seconds: number };
+
+// Sort a tally map by play count (then listening time) and keep the top entries
+function topEntries(tallies: Map<string, Tally>, limit: number) {
+  return [...tallies.entries()]
+    .sort(([, a], [, b]) => b.plays - a.plays || b.seconds - a.seconds)
+    .slice(0, limit);
+}
+
+function addTo(tallies: Map<string, Tally>, key: string, seconds: number) {
+  const tally = tallies.get(key) ?? { plays: 0, seconds: 0 };
+  tally.plays++;
+  tally.seconds += seconds;
+  tallies.set(key, tally);
+}
+
+// Listening statistics for the signed-in user, optionally limited to [from, to)
+export const getMyStats = query({
+  args: {
+    from: v.optional(v.number()),
+    to: v.optional(v.number()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null;
+    }
+    const limit = args.limit ?? 5;
+
+    const plays = await ctx.db
+      .query("plays")
+      .withIndex("by_user_and_startedAt", (q) => {
+        const byUser = q.eq("userId", userId);
+        if (args.from !== undefined && args.to !== undefined) {
+          return byUser.gte("startedAt", args.from).lt("startedAt", args.to);
+        }
+        if (args.from !== undefined) {
+          return byUser.gte("startedAt", args.from);
+        }
+        if (args.to !== undefined) {
+          return byUser.lt("startedAt", args.to);
+        }
+        return byUser;
+      })
+      .collect();
+
+    const trackTallies = new Map<string, Tally>();
+    const artistTallies = new Map<string, Tally>();
+    const genreTallies = new Map<string, Tally>();
+    let totalSeconds = 0;
+    let completedCount = 0;
+    const tracksById = new Map<string, Doc<"tracks"> | null>();
+
+    for (const play of plays) {
+      if (!tracksById.has(play.trackId)) {
+        tracksById.set(play.trackId, await ctx.db.get(play.trackId));
+      }
+      const track = tracksById.get(play.trackId);
+      totalSeconds += play.secondsListened;
+      if (play.completed) completedCount++;
+      addTo(trackTallies, play.trackId, play.secondsListened);
+      if (track) {
+        addTo(artistTallies, track.artist, play.secondsListened);
+        addTo(genreTallies, track.genre ?? "Unknown", play.secondsListened);
+      }
+    }
+
+    const topTracks = [];
+    for (const [trackId, tally] of topEntries(trackTallies, limit)) {
+      const track = tracksById.get(trackId);
+      if (track) {
+        topTracks.push({ track: await withFileUrl(ctx, track), ...tally });
+      }
+    }
+
+    return {
+      totalSeconds,
+      playCount: plays.length,
+      completedCount,
+      skippedCount: plays.length - completedCount,
+      topTracks,
+      topArtists: topEntries(artistTallies, limit).map(([artist, tally]) => ({ artist, ...tally })),
+      topGenres: topEntries(genreTallies, limit).map(([genre, tally]) => ({ genre, ...tally })),
+    };
+  },
+});
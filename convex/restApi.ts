@@ -0,0 +1,153 @@
+import { internalQuery, internalMutation, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { withFileUrl } from "./tracks";
+import { loadPlaylistTracks } from "./playlists";
+
+// Internal functions behind the HTTP API in router.ts. They take the user resolved
+// from the API token and report failures as { ok: false, status, error } so the
+// router can turn them into JSON error responses.
+
+type ApiError = { ok: false; status: 400 | 404; error: string };
+
+function fail(status: 400 | 404, error: string): ApiError {
+  return { ok: false, status, error };
+}
+
+// Look up every track ID, reporting the ones that are malformed or unknown
+async function resolveTrackIds(ctx: QueryCtx, trackIds: string[]) {
+  const resolved: Id<"tracks">[] = [];
+  const unknown: string[] = [];
+  for (const rawId of trackIds) {
+    const trackId = ctx.db.normalizeId("tracks", rawId);
+    if (trackId && (await ctx.db.get(trackId))) {
+      resolved.push(trackId);
+    } else {
+      unknown.push(rawId);
+    }
+  }
+  return { resolved, unknown };
+}
+
+async function loadOwnedPlaylist(ctx: QueryCtx, userId: Id<"users">, rawId: string) {
+  const playlistId = ctx.db.normalizeId("playlists", rawId);
+  const playlist = playlistId ? await ctx.db.get(playlistId) : null;
+  return playlist && playlist.userId === userId ? playlist : null;
+}
+
+export const authenticate = internalQuery({
+  args: { tokenHash: v.string() },
+  handler: async (ctx, args) => {
+    const token = await ctx.db
+      .query("apiTokens")
+      .withIndex("by_tokenHash", (q) => q.eq("tokenHash", args.tokenHash))
+      .unique();
+    return token?.userId ?? null;
+  },
+});
+
+export const getTrack = internalQuery({
+  args: { trackId: v.string() },
+  handler: async (ctx, args) => {
+    const trackId = ctx.db.normalizeId("tracks", args.trackId);
+    const track = trackId ? await ctx.db.get(trackId) : null;
+    return track ? await withFileUrl(ctx, track) : null;
+  },
+});
+
+export const listPlaylists = internalQuery({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("playlists")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .collect();
+  },
+});
+
+// A playlist with its tracks (owner or public only)
+export const getPlaylist = internalQuery({
+  args: { userId: v.id("users"), playlistId: v.string() },
+  handler: async (ctx, args) => {
+    const playlistId = ctx.db.normalizeId("playlists", args.playlistId);
+    const playlist = playlistId ? await ctx.db.get(playlistId) : null;
+    if (!playlist || (!playlist.isPublic && playlist.userId !== args.userId)) {
+      return null;
+    }
+    return { ...playlist, tracks: await loadPlaylistTracks(ctx, playlist) };
+  },
+});
+
+export const createPlaylist = internalMutation({
+  args: {
+    userId: v.id("users"),
+    name: v.string(),
+    isPublic: v.optional(v.boolean()),
+    trackIds: v.optional(v.array(v.string())),
+  },
+  handler: async (ctx, args) => {
+    const name = args.name.trim();
+    if (name === "") {
+      return fail(400, "Playlist name cannot be empty");
+    }
+    const { resolved, unknown } = await resolveTrackIds(ctx, args.trackIds ?? []);
+    if (unknown.length > 0) {
+      return fail(400, `Unknown track IDs: ${unknown.join(", ")}`);
+    }
+    const playlistId = await ctx.db.insert("playlists", {
+      name,
+      userId: args.userId,
+      trackIds: resolved,
+      isPublic: args.isPublic ?? false,
+    });
+    return { ok: true as const, playlistId };
+  },
+});
+
+export const updatePlaylist = internalMutation({
+  args: {
+    userId: v.id("users"),
+    playlistId: v.string(),
+    name: v.optional(v.string()),
+    isPublic: v.optional(v.boolean()),
+    trackIds: v.optional(v.array(v.string())),
+  },
+  handler: async (ctx, args) => {
+    const playlist = await loadOwnedPlaylist(ctx, args.userId, args.playlistId);
+    if (!playlist) {
+      return fail(404, "Playlist not found");
+    }
+    // Only fields present in the request are changed (patching undefined would delete them)
+    const updates: Partial<Pick<Doc<"playlists">, "name" | "isPublic" | "trackIds">> = {};
+    if (args.name !== undefined) {
+      updates.name = args.name.trim();
+      if (updates.name === "") {
+        return fail(400, "Playlist name cannot be empty");
+      }
+    }
+    if (args.isPublic !== undefined) {
+      updates.isPublic = args.isPublic;
+    }
+    if (args.trackIds !== undefined) {
+      const { resolved, unknown } = await resolveTrackIds(ctx, args.trackIds);
+      if (unknown.length > 0) {
+        return fail(400, `Unknown track IDs: ${unknown.join(", ")}`);
+      }
+      updates.trackIds = resolved;
+    }
+    await ctx.db.patch(playlist._id, updates);
+    return { ok: true as const, playlistId: playlist._id };
+  },
+});
+
+export const deletePlaylist = internalMutation({
+  args: { userId: v.id("users"), playlistId: v.string() },
+  handler: async (ctx, args) => {
+    const playlist = await loadOwnedPlaylist(ctx, args.userId, args.playlistId);
+    if (!playlist) {
+      return fail(404, "Playlist not found");
+    }
+    await ctx.db.delete(playlist._id);
+    return { ok: true as const, playlistId: playlist._id };
+  },
+});
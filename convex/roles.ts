@@ -0,0 +1,74 @@
+import { query, internalMutation, QueryCtx } from "./_generated/server";
+import { v, Infer } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { Id } from "./_generated/dataModel";
+import { userRole } from "./schema";
+
+export type Role = Infer<typeof userRole>;
+
+// Each role includes the permissions of the ones below it
+const ROLE_RANK: Record<Role, number> = {
+  listener: 0,
+  curator: 1,
+  admin: 2,
+};
+
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+export async function getRole(ctx: QueryCtx, userId: Id<"users">): Promise<Role> {
+  const row = await ctx.db
+    .query("userRoles")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .unique();
+  return row?.role ?? "listener";
+}
+
+// Guard for queries and mutations: returns the signed-in user, or throws if they lack the role
+export async function requireRole(ctx: QueryCtx, required: Role): Promise<Id<"users">> {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) {
+    throw new Error("Not authenticated");
+  }
+  if (!hasRole(await getRole(ctx, userId), required)) {
+    throw new Error(`Only ${required}s can do this`);
+  }
+  return userId;
+}
+
+export const myRole = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null;
+    }
+    return await getRole(ctx, userId);
+  },
+});
+
+// Assign a role by email, e.g. to create the first admin:
+//   npx convex run roles:setUserRole '{"email": "me@example.com", "role": "admin"}'
+export const setUserRole = internalMutation({
+  args: { email: v.string(), role: userRole },
+  handler: async (ctx, args) => {
+    const user = await ctx.db
+      .query("users")
+      .withIndex("email", (q) => q.eq("email", args.email))
+      .first();
+    if (!user) {
+      throw new Error(`No user with email ${args.email}`);
+    }
+    const existing = await ctx.db
+      .query("userRoles")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .unique();
+    if (existing) {
+      await ctx.db.patch(existing._id, { role: args.role });
+    } else {
+      await ctx.db.insert("userRoles", { userId: user._id, role: args.role });
+    }
+    return `${args.email} is now ${args.role === "admin" ? "an" : "a"} ${args.role}`;
+  },
+});
@@ -1,5 +1,239 @@
 import { httpRouter } from "convex/server";
+import { httpAction, ActionCtx } from "./_generated/server";
+import { api, internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { hashApiToken } from "./apiTokens";
+import { exportM3U } from "./playlistFormats";
 
 const http = httpRouter();
 
+// REST API for scripts and other apps, authenticated with per-user API tokens:
+//
+//   GET    /api/v1/tracks?limit=&cursor=
+//   GET    /api/v1/tracks/search?q=&genre=&artist=&limit=&cursor=
+//   GET    /api/v1/tracks/:id
+//   GET    /api/v1/playlists
+//   POST   /api/v1/playlists            { name, isPublic?, trackIds? }
+//   GET    /api/v1/playlists/:id
+//   PATCH  /api/v1/playlists/:id        { name?, isPublic?, trackIds? }
+//   DELETE /api/v1/playlists/:id
+//   GET    /api/v1/playlists/:id/m3u
+const API_PREFIX = "/api/v1/";
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+// Tokens travel in the Authorization header, never in cookies, so any origin may call the API
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PATCH, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Authorization, Content-Type",
+  "Access-Control-Max-Age": "86400",
+};
+
+function json(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...CORS_HEADERS, "Content-Type": "application/json" },
+  });
+}
+
+function error(status: number, message: string): Response {
+  return json(status, { error: message });
+}
+
+async function authenticate(ctx: ActionCtx, request: Request): Promise<Id<"users"> | null> {
+  const match = /^Bearer\s+(\S+)$/i.exec(request.headers.get("Authorization") ?? "");
+  if (!match) return null;
+  return await ctx.runQuery(internal.restApi.authenticate, { tokenHash: await hashApiToken(match[1]) });
+}
+
+// Parse ?limit= and ?cursor=; returns an error message for invalid values
+function pageOptions(url: URL): { numItems: number; cursor: string | null } | string {
+  const limitParam = url.searchParams.get("limit");
+  const numItems = limitParam === null ? DEFAULT_PAGE_SIZE : Number(limitParam);
+  if (!Number.isInteger(numItems) || numItems < 1 || numItems > MAX_PAGE_SIZE) {
+    return `limit must be a whole number between 1 and ${MAX_PAGE_SIZE}`;
+  }
+  return { numItems, cursor: url.searchParams.get("cursor") };
+}
+
+// Convex reports cursors it cannot continue from as InvalidCursor errors
+function isInvalidCursorError(e: unknown): boolean {
+  return e instanceof Error && e.message.includes("InvalidCursor");
+}
+
+// Read a JSON object body and check the playlist fields it may contain
+async function playlistBody(
+  request: Request
+): Promise<{ name?: string; isPublic?: boolean; trackIds?: string[] } | string> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return "Request body must be JSON";
+  }
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return "Request body must be a JSON object";
+  }
+  const { name, isPublic, trackIds } = body as Record<string, unknown>;
+  if (name !== undefined && typeof name !== "string") {
+    return "name must be a string";
+  }
+  if (isPublic !== undefined && typeof isPublic !== "boolean") {
+    return "isPublic must be a boolean";
+  }
+  if (trackIds !== undefined && (!Array.isArray(trackIds) || !trackIds.every((id) => typeof id === "string"))) {
+    return "trackIds must be an array of strings";
+  }
+  return { name, isPublic, trackIds };
+}
+
+async function handleTracks(ctx: ActionCtx, request: Request, url: URL, trackId?: string) {
+  if (request.method !== "GET") {
+    return error(405, "Method not allowed");
+  }
+
+  if (trackId && trackId !== "search") {
+    const track = await ctx.runQuery(internal.restApi.getTrack, { trackId });
+    return track ? json(200, track) : error(404, `Track ${trackId} not found`);
+  }
+
+  const paginationOpts = pageOptions(url);
+  if (typeof paginationOpts === "string") {
+    return error(400, paginationOpts);
+  }
+
+  let result;
+  try {
+    if (trackId === "search") {
+      const searchTerm = url.searchParams.get("q")?.trim();
+      if (!searchTerm) {
+        return error(400, "q is required");
+      }
+      result = await ctx.runQuery(api.tracks.searchTracks, {
+        searchTerm,
+        genre: url.searchParams.get("genre") ?? undefined,
+        artist: url.searchParams.get("artist") ?? undefined,
+        paginationOpts,
+      });
+    } else {
+      result = await ctx.runQuery(api.tracks.listTracks, { paginationOpts });
+    }
+  } catch (e) {
+    // A client error only for a cursor that does not belong to this query or no longer
+    // matches it; anything else reaches the 500 handler
+    if (paginationOpts.cursor !== null && isInvalidCursorError(e)) {
+      return error(400, "Invalid cursor");
+    }
+    throw e;
+  }
+  return json(200, { items: result.page, cursor: result.continueCursor, isDone: result.isDone });
+}
+
+async function handlePlaylists(
+  ctx: ActionCtx,
+  request: Request,
+  userId: Id<"users">,
+  playlistId?: string,
+  format?: string
+) {
+  if (!playlistId) {
+    if (request.method === "GET") {
+      return json(200, await ctx.runQuery(internal.restApi.listPlaylists, { userId }));
+    }
+    if (request.method === "POST") {
+      const body = await playlistBody(request);
+      if (typeof body === "string") {
+        return error(400, body);
+      }
+      if (body.name === undefined) {
+        return error(400, "name is required");
+      }
+      const result = await ctx.runMutation(internal.restApi.createPlaylist, { userId, ...body, name: body.name });
+      if (!result.ok) {
+        return error(result.status, result.error);
+      }
+      return json(201, await ctx.runQuery(internal.restApi.getPlaylist, { userId, playlistId: result.playlistId }));
+    }
+    return error(405, "Method not allowed");
+  }
+
+  if (format !== undefined) {
+    if (format !== "m3u") {
+      return error(404, "Not found");
+    }
+    if (request.method !== "GET") {
+      return error(405, "Method not allowed");
+    }
+    const playlist = await ctx.runQuery(internal.restApi.getPlaylist, { userId, playlistId });
+    if (!playlist) {
+      return error(404, `Playlist ${playlistId} not found`);
+    }
+    return new Response(exportM3U(playlist.tracks), {
+      status: 200,
+      headers: { ...CORS_HEADERS, "Content-Type": "audio/x-mpegurl; charset=utf-8" },
+    });
+  }
+
+  switch (request.method) {
+    case "GET": {
+      const playlist = await ctx.runQuery(internal.restApi.getPlaylist, { userId, playlistId });
+      return playlist ? json(200, playlist) : error(404, `Playlist ${playlistId} not found`);
+    }
+    case "PATCH": {
+      const body = await playlistBody(request);
+      if (typeof body === "string") {
+        return error(400, body);
+      }
+      const result = await ctx.runMutation(internal.restApi.updatePlaylist, { userId, playlistId, ...body });
+      if (!result.ok) {
+        return error(result.status, result.error);
+      }
+      return json(200, await ctx.runQuery(internal.restApi.getPlaylist, { userId, playlistId }));
+    }
+    case "DELETE": {
+      const result = await ctx.runMutation(internal.restApi.deletePlaylist, { userId, playlistId });
+      if (!result.ok) {
+        return error(result.status, result.error);
+      }
+      return new Response(null, { status: 204, headers: CORS_HEADERS });
+    }
+    default:
+      return error(405, "Method not allowed");
+  }
+}
+
+const handleApiRequest = httpAction(async (ctx, request) => {
+  const url = new URL(request.url);
+  const [resource, id, format, ...rest] = url.pathname.slice(API_PREFIX.length).split("/").filter(Boolean);
+
+  const userId = await authenticate(ctx, request);
+  if (!userId) {
+    return error(401, "Missing or invalid API token");
+  }
+
+  try {
+    if (resource === "tracks" && format === undefined) {
+      return await handleTracks(ctx, request, url, id);
+    }
+    if (resource === "playlists" && rest.length === 0) {
+      return await handlePlaylists(ctx, request, userId, id, format);
+    }
+    return error(404, "Not found");
+  } catch (e) {
+    console.error(e);
+    return error(500, "Internal server error");
+  }
+});
+
+// CORS preflight
+const handlePreflight = httpAction(async () => {
+  return new Response(null, { status: 204, headers: CORS_HEADERS });
+});
+
+for (const method of ["GET", "POST", "PATCH", "DELETE"] as const) {
+  http.route({ pathPrefix: API_PREFIX, method, handler: handleApiRequest });
+}
+http.route({ pathPrefix: API_PREFIX, method: "OPTIONS", handler: handlePreflight });
+
 export default http;
@@ -2,21 +2,144 @@ import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 import { authTables } from "@convex-dev/auth/server";
 
+// A single smart playlist rule over track fields
+export const smartPlaylistRule = v.union(
+  v.object({ field: v.literal("genre"), op: v.literal("equals"), value: v.string() }),
+  v.object({ field: v.literal("genre"), op: v.literal("in"), values: v.array(v.string()) }),
+  v.object({ field: v.literal("artist"), op: v.literal("contains"), value: v.string() }),
+  v.object({
+    field: v.literal("duration"),
+    op: v.literal("between"),
+    min: v.number(),
+    max: v.number(),
+  }),
+  v.object({ field: v.literal("liked"), op: v.literal("is"), value: v.boolean() }),
+  v.object({
+    field: v.literal("playCount"),
+    op: v.union(v.literal("gte"), v.literal("lte")),
+    value: v.number(),
+  })
+);
+
+export const smartPlaylistSortField = v.union(
+  v.literal("title"),
+  v.literal("artist"),
+  v.literal("duration"),
+  v.literal("playCount"),
+  v.literal("addedAt")
+);
+
+// Library permissions: listeners play and build playlists, curators add and edit
+// tracks, admins can also delete tracks and manage roles
+export const userRole = v.union(v.literal("admin"), v.literal("curator"), v.literal("listener"));
+
+// Integrated loudness (LUFS) and sample peak (linear, 1 = full scale) of a track's audio
+export const trackLoudness = v.object({ integratedLufs: v.number(), peak: v.number() });
+
 const applicationTables = {
   tracks: defineTable({
     title: v.string(),
     artist: v.string(),
     duration: v.number(), // in seconds
-    audioUrl: v.string(),
+    // External URL, or unset for uploads (resolved from storageId by the track queries)
+    audioUrl: v.optional(v.string()),
+    storageId: v.optional(v.id("_storage")),
+    uploadedBy: v.optional(v.id("users")),
     coverUrl: v.optional(v.string()),
+    // Embedded artwork uploaded alongside the audio file
+    coverStorageId: v.optional(v.id("_storage")),
     genre: v.optional(v.string()),
-  }),
+    album: v.optional(v.string()),
+    year: v.optional(v.number()),
+    trackNumber: v.optional(v.number()),
+    // title + artist + genre + album, kept in sync by the track mutations for full-text search
+    searchText: v.optional(v.string()),
+    // Normalized artist + title for duplicate detection, kept in sync like searchText
+    dedupeKey: v.optional(v.string()),
+    // Stable key of the seed fixture this track came from, unset for user-added tracks
+    seedKey: v.optional(v.string()),
+    // Measured once by the first player that decodes the track, cleared when the audio changes
+    loudness: v.optional(trackLoudness),
+  })
+    .index("by_audioUrl", ["audioUrl"])
+    .index("by_storageId", ["storageId"])
+    .index("by_coverStorageId", ["coverStorageId"])
+    .index("by_dedupeKey", ["dedupeKey"])
+    .index("by_seedKey", ["seedKey"])
+    .index("by_artist_and_title", ["artist", "title"])
+    .searchIndex("search_text", {
+      searchField: "searchText",
+      filterFields: ["genre", "artist"],
+    }),
   playlists: defineTable({
     name: v.string(),
     userId: v.id("users"),
     trackIds: v.array(v.id("tracks")),
     isPublic: v.boolean(),
   }).index("by_user", ["userId"]),
+  plays: defineTable({
+    userId: v.id("users"),
+    trackId: v.id("tracks"),
+    startedAt: v.number(), // ms since epoch
+    secondsListened: v.number(),
+    completed: v.boolean(),
+    skipped: v.boolean(),
+  })
+    .index("by_user_and_startedAt", ["userId", "startedAt"])
+    .index("by_track", ["trackId"]),
+  likes: defineTable({
+    userId: v.id("users"),
+    trackId: v.id("tracks"),
+    likedAt: v.number(),
+  })
+    .index("by_user_and_trackId", ["userId", "trackId"])
+    .index("by_user_and_likedAt", ["userId", "likedAt"])
+    .index("by_track", ["trackId"]),
+  smartPlaylists: defineTable({
+    name: v.string(),
+    userId: v.id("users"),
+    match: v.union(v.literal("all"), v.literal("any")), // AND / OR
+    rules: v.array(smartPlaylistRule),
+    sortBy: v.optional(smartPlaylistSortField),
+    sortOrder: v.optional(v.union(v.literal("asc"), v.literal("desc"))),
+    limit: v.optional(v.number()),
+  }).index("by_user", ["userId"]),
+  // Custom equalizer presets (the built-in ones live in equalizer.ts)
+  eqPresets: defineTable({
+    userId: v.id("users"),
+    name: v.string(),
+    preamp: v.number(), // dB
+    gains: v.array(v.number()), // dB per band in EQ_BANDS
+    genre: v.optional(v.string()), // applied automatically to tracks of this genre
+  })
+    .index("by_user", ["userId"])
+    .index("by_user_and_name", ["userId", "name"]),
+  // Seek bar overview of a track's audio, kept out of the track documents so track
+  // lists stay small; measured once by the first player that decodes the track
+  waveforms: defineTable({
+    trackId: v.id("tracks"),
+    peaks: v.array(v.number()), // WAVEFORM_POINTS values between 0 and 1
+  }).index("by_track", ["trackId"]),
+  // Users without a row are listeners
+  userRoles: defineTable({
+    userId: v.id("users"),
+    role: userRole,
+  }).index("by_user", ["userId"]),
+  // Single row recording the last seed version applied by seed:seedLibrary
+  seedState: defineTable({
+    version: v.number(),
+    appliedAt: v.number(),
+  }),
+  // Per-user tokens for the HTTP API; only a SHA-256 hash of the secret is stored
+  apiTokens: defineTable({
+    userId: v.id("users"),
+    name: v.string(),
+    tokenHash: v.string(),
+    prefix: v.string(), // first characters of the token, shown so users can tell tokens apart
+    createdAt: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_tokenHash", ["tokenHash"]),
 };
 
 export default defineSchema({
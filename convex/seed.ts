@@ -0,0 +1,88 @@
+import { internalMutation, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { insertTrack, patchTrack } from "./tracks";
+
+// Bump when SEED_TRACKS changes so seedLibrary applies the new fixtures
+export const SEED_VERSION = 1;
+
+const COVERS = [
+  "https://images.unsplash.com/photo-1493225457124-a3eb161ffa5f?w=300&h=300&fit=crop",
+  "https://images.unsplash.com/photo-1511671782779-c97d3d27a1d4?w=300&h=300&fit=crop",
+  "https://images.unsplash.com/photo-1506905925346-21bda4d32df4?w=300&h=300&fit=crop",
+  "https://images.unsplash.com/photo-1571330735066-03aaa9429d89?w=300&h=300&fit=crop",
+  "https://images.unsplash.com/photo-1598488035139-bdbb2231ce04?w=300&h=300&fit=crop",
+];
+
+// Each fixture plays its own sample, so seed tracks are not flagged as duplicates by URL
+const sampleUrl = (n: number) => `https://www.soundhelix.com/examples/mp3/SoundHelix-Song-${n}.mp3`;
+
+// The demo library. seedKey identifies a fixture across versions and must never change
+const SEED_TRACKS = [
+  { seedKey: "ed-sheeran/shape-of-you", title: "Shape of You", artist: "Ed Sheeran", duration: 233, audioUrl: sampleUrl(1), coverUrl: COVERS[0], genre: "Pop" },
+  { seedKey: "the-weeknd/blinding-lights", title: "Blinding Lights", artist: "The Weeknd", duration: 200, audioUrl: sampleUrl(2), coverUrl: COVERS[1], genre: "Pop" },
+  { seedKey: "adele/someone-like-you", title: "Someone Like You", artist: "Adele", duration: 285, audioUrl: sampleUrl(3), coverUrl: COVERS[2], genre: "Soul" },
+  { seedKey: "mark-ronson/uptown-funk", title: "Uptown Funk", artist: "Mark Ronson ft. Bruno Mars", duration: 270, audioUrl: sampleUrl(4), coverUrl: COVERS[3], genre: "Funk" },
+  { seedKey: "adele/rolling-in-the-deep", title: "Rolling in the Deep", artist: "Adele", duration: 228, audioUrl: sampleUrl(5), coverUrl: COVERS[4], genre: "Soul" },
+  { seedKey: "billie-eilish/bad-guy", title: "Bad Guy", artist: "Billie Eilish", duration: 194, audioUrl: sampleUrl(6), coverUrl: COVERS[0], genre: "Alternative" },
+  { seedKey: "ed-sheeran/thinking-out-loud", title: "Thinking Out Loud", artist: "Ed Sheeran", duration: 281, audioUrl: sampleUrl(7), coverUrl: COVERS[1], genre: "Pop" },
+  { seedKey: "harry-styles/watermelon-sugar", title: "Watermelon Sugar", artist: "Harry Styles", duration: 174, audioUrl: sampleUrl(8), coverUrl: COVERS[2], genre: "Pop" },
+  { seedKey: "dua-lipa/levitating", title: "Levitating", artist: "Dua Lipa", duration: 203, audioUrl: sampleUrl(9), coverUrl: COVERS[3], genre: "Pop" },
+  { seedKey: "the-kid-laroi/stay", title: "Stay", artist: "The Kid LAROI & Justin Bieber", duration: 141, audioUrl: sampleUrl(10), coverUrl: COVERS[4], genre: "Pop" },
+  { seedKey: "ed-sheeran/perfect", title: "Perfect", artist: "Ed Sheeran", duration: 263, audioUrl: sampleUrl(11), coverUrl: COVERS[0], genre: "Pop" },
+  { seedKey: "taylor-swift/anti-hero", title: "Anti-Hero", artist: "Taylor Swift", duration: 200, audioUrl: sampleUrl(12), coverUrl: COVERS[1], genre: "Pop" },
+];
+
+type SeedTrack = Omit<(typeof SEED_TRACKS)[number], "seedKey">;
+
+// The existing track for a fixture. Tracks seeded before seed keys existed are
+// recognised by artist + title, as long as no user uploaded them
+async function findSeededTrack(ctx: QueryCtx, seedKey: string, fixture: SeedTrack) {
+  const byKey = await ctx.db
+    .query("tracks")
+    .withIndex("by_seedKey", (q) => q.eq("seedKey", seedKey))
+    .unique();
+  if (byKey) return byKey;
+  const byName = await ctx.db
+    .query("tracks")
+    .withIndex("by_artist_and_title", (q) => q.eq("artist", fixture.artist).eq("title", fixture.title))
+    .collect();
+  return byName.find((track) => track.seedKey === undefined && !track.uploadedBy) ?? null;
+}
+
+// Insert or update the seed tracks when SEED_VERSION is newer than the stored version.
+// Tracks are matched by seedKey and patched in place, so their IDs (and every playlist,
+// play and like pointing at them) survive; nothing is ever deleted.
+//   npx convex run seed:seedLibrary
+//   npx convex run seed:seedLibrary '{"force": true}'   (re-apply the current version)
+export const seedLibrary = internalMutation({
+  args: { force: v.optional(v.boolean()) },
+  handler: async (ctx, args) => {
+    const state = await ctx.db.query("seedState").first();
+    if (state && state.version >= SEED_VERSION && !args.force) {
+      return `Seed version ${state.version} is already applied`;
+    }
+
+    let inserted = 0;
+    let updated = 0;
+    for (const { seedKey, ...fixture } of SEED_TRACKS) {
+      const existing = await findSeededTrack(ctx, seedKey, fixture);
+      if (!existing) {
+        await insertTrack(ctx, { ...fixture, seedKey });
+        inserted++;
+        continue;
+      }
+      const fields = Object.keys(fixture) as (keyof SeedTrack)[];
+      if (existing.seedKey !== seedKey || fields.some((field) => existing[field] !== fixture[field])) {
+        await patchTrack(ctx, existing, { ...fixture, seedKey });
+        updated++;
+      }
+    }
+
+    if (state) {
+      await ctx.db.patch(state._id, { version: SEED_VERSION, appliedAt: Date.now() });
+    } else {
+      await ctx.db.insert("seedState", { version: SEED_VERSION, appliedAt: Date.now() });
+    }
+    return `Applied seed version ${SEED_VERSION}: ${inserted} inserted, ${updated} updated`;
+  },
+});
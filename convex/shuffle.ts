@@ -0,0 +1,102 @@
+// Shuffle strategies shared by the client MusicLinkedList and the
+// server-side shuffleTracks query. Seeded shuffles start from the tracks sorted
+// by ID, so one seed gives the same order for the same set of tracks on both
+// sides, however that set was ordered before (library, playlist or a reorder).
+
+export type ShuffleStrategy = "random" | "seeded" | "spread";
+
+export const SHUFFLE_STRATEGIES: ShuffleStrategy[] = ["random", "seeded", "spread"];
+
+export interface ShuffleOptions {
+  strategy?: ShuffleStrategy;
+  seed?: number;
+}
+
+// Pick a fresh 32-bit seed
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+// Mulberry32: small, fast PRNG that returns floats in [0, 1)
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Fisher-Yates shuffle on a copy of the items
+function fisherYates<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Greedy pass over a shuffled order that keeps the same artist (and, where
+// possible, the same genre) apart. Artists with the most tracks left go first
+// so they do not pile up at the end.
+function spreadByArtist<T extends { artist: string; genre?: string }>(items: T[]): T[] {
+  const remaining = [...items];
+  const result: T[] = [];
+  const artistCounts = new Map<string, number>();
+  for (const item of remaining) {
+    const artist = item.artist.toLowerCase();
+    artistCounts.set(artist, (artistCounts.get(artist) ?? 0) + 1);
+  }
+
+  while (remaining.length > 0) {
+    const last = result[result.length - 1];
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+
+    remaining.forEach((item, index) => {
+      const artist = item.artist.toLowerCase();
+      let score = 0;
+      if (!last || artist !== last.artist.toLowerCase()) score += 1000;
+      if (!last || !item.genre || item.genre.toLowerCase() !== last.genre?.toLowerCase()) score += 100;
+      score += Math.min(artistCounts.get(artist) ?? 0, 99);
+      // Earlier items in the shuffled order win ties
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = index;
+      }
+    });
+
+    const [picked] = remaining.splice(bestIndex, 1);
+    const artist = picked.artist.toLowerCase();
+    artistCounts.set(artist, (artistCounts.get(artist) ?? 1) - 1);
+    result.push(picked);
+  }
+
+  return result;
+}
+
+// Shuffle items with the given strategy; "seeded" and "spread" are reproducible from
+// the seed and the set of IDs, independent of the order the items come in
+export function shuffleItems<T extends { artist: string; genre?: string }>(
+  items: T[],
+  idOf: (item: T) => string,
+  options: ShuffleOptions = {}
+): T[] {
+  const strategy = options.strategy ?? "random";
+  if (strategy === "random") {
+    return fisherYates(items, Math.random);
+  }
+
+  // Plain code-unit comparison, so the order does not depend on the locale
+  const canonical = [...items].sort((a, b) => {
+    const idA = idOf(a);
+    const idB = idOf(b);
+    return idA < idB ? -1 : idA > idB ? 1 : 0;
+  });
+  const random = createSeededRandom(options.seed ?? generateSeed());
+  const shuffled = fisherYates(canonical, random);
+  return strategy === "spread" ? spreadByArtist(shuffled) : shuffled;
+}
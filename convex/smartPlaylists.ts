@@ -0,0 +1,193 @@
+import { query, mutation, QueryCtx } from "./_generated/server";
+import { v, Infer } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { smartPlaylistRule, smartPlaylistSortField } from "./schema";
+import { withFileUrls } from "./tracks";
+
+type SmartPlaylistRule = Infer<typeof smartPlaylistRule>;
+
+// Per-user facts that rules can match on besides the track fields
+interface TrackContext {
+  likedTrackIds: Set<string>;
+  playCounts: Map<string, number>;
+}
+
+const smartPlaylistFields = {
+  name: v.string(),
+  match: v.union(v.literal("all"), v.literal("any")),
+  rules: v.array(smartPlaylistRule),
+  sortBy: v.optional(smartPlaylistSortField),
+  sortOrder: v.optional(v.union(v.literal("asc"), v.literal("desc"))),
+  limit: v.optional(v.number()),
+};
+
+function matchesRule(track: Doc<"tracks">, rule: SmartPlaylistRule, context: TrackContext): boolean {
+  switch (rule.field) {
+    case "genre": {
+      const genre = track.genre?.toLowerCase();
+      if (rule.op === "equals") {
+        return genre === rule.value.toLowerCase();
+      }
+      return rule.values.some((value) => value.toLowerCase() === genre);
+    }
+    case "artist":
+      return track.artist.toLowerCase().includes(rule.value.toLowerCase());
+    case "duration":
+      return track.duration >= rule.min && track.duration <= rule.max;
+    case "liked":
+      return context.likedTrackIds.has(track._id) === rule.value;
+    case "playCount": {
+      const count = context.playCounts.get(track._id) ?? 0;
+      return rule.op === "gte" ? count >= rule.value : count <= rule.value;
+    }
+  }
+}
+
+// Filter, sort and limit the library according to a smart playlist definition
+function evaluateSmartPlaylist(
+  tracks: Doc<"tracks">[],
+  definition: Pick<Doc<"smartPlaylists">, "match" | "rules" | "sortBy" | "sortOrder" | "limit">,
+  context: TrackContext
+): Doc<"tracks">[] {
+  const matched = tracks.filter((track) => {
+    // A playlist without rules matches everything
+    if (definition.rules.length === 0) return true;
+    return definition.match === "all"
+      ? definition.rules.every((rule) => matchesRule(track, rule, context))
+      : definition.rules.some((rule) => matchesRule(track, rule, context));
+  });
+
+  if (definition.sortBy) {
+    const sortBy = definition.sortBy;
+    const direction = definition.sortOrder === "desc" ? -1 : 1;
+    matched.sort((a, b) => {
+      switch (sortBy) {
+        case "title":
+          return direction * a.title.localeCompare(b.title);
+        case "artist":
+          return direction * a.artist.localeCompare(b.artist);
+        case "duration":
+          return direction * (a.duration - b.duration);
+        case "playCount":
+          return direction * ((context.playCounts.get(a._id) ?? 0) - (context.playCounts.get(b._id) ?? 0));
+        case "addedAt":
+          return direction * (a._creationTime - b._creationTime);
+      }
+    });
+  }
+
+  return definition.limit !== undefined ? matched.slice(0, Math.max(0, definition.limit)) : matched;
+}
+
+// Only load likes and plays when a rule or the sort order needs them
+async function loadTrackContext(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  definition: Pick<Doc<"smartPlaylists">, "rules" | "sortBy">
+): Promise<TrackContext> {
+  const context: TrackContext = { likedTrackIds: new Set(), playCounts: new Map() };
+
+  if (definition.rules.some((rule) => rule.field === "liked")) {
+    const likes = await ctx.db
+      .query("likes")
+      .withIndex("by_user_and_trackId", (q) => q.eq("userId", userId))
+      .collect();
+    for (const like of likes) {
+      context.likedTrackIds.add(like.trackId);
+    }
+  }
+
+  if (definition.rules.some((rule) => rule.field === "playCount") || definition.sortBy === "playCount") {
+    const plays = await ctx.db
+      .query("plays")
+      .withIndex("by_user_and_startedAt", (q) => q.eq("userId", userId))
+      .collect();
+    for (const play of plays) {
+      context.playCounts.set(play.trackId, (context.playCounts.get(play.trackId) ?? 0) + 1);
+    }
+  }
+
+  return context;
+}
+
+async function getOwnedSmartPlaylist(ctx: QueryCtx, smartPlaylistId: Id<"smartPlaylists">) {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) {
+    throw new Error("Not authenticated");
+  }
+  const smartPlaylist = await ctx.db.get(smartPlaylistId);
+  if (!smartPlaylist || smartPlaylist.userId !== userId) {
+    throw new Error("Smart playlist not found");
+  }
+  return smartPlaylist;
+}
+
+export const listMySmartPlaylists = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+    return await ctx.db
+      .query("smartPlaylists")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+  },
+});
+
+// Re-evaluated live: any change to tracks, likes or plays updates the result
+export const getSmartPlaylistTracks = query({
+  args: { smartPlaylistId: v.id("smartPlaylists") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    const smartPlaylist = await ctx.db.get(args.smartPlaylistId);
+    if (!userId || !smartPlaylist || smartPlaylist.userId !== userId) {
+      return null;
+    }
+    const tracks = await ctx.db.query("tracks").collect();
+    const context = await loadTrackContext(ctx, userId, smartPlaylist);
+    return await withFileUrls(ctx, evaluateSmartPlaylist(tracks, smartPlaylist, context));
+  },
+});
+
+export const createSmartPlaylist = mutation({
+  args: smartPlaylistFields,
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+    const name = args.name.trim();
+    if (name === "") {
+      throw new Error("Playlist name cannot be empty");
+    }
+    return await ctx.db.insert("smartPlaylists", { ...args, name, userId });
+  },
+});
+
+export const updateSmartPlaylist = mutation({
+  args: { smartPlaylistId: v.id("smartPlaylists"), ...smartPlaylistFields },
+  handler: async (ctx, args) => {
+    const smartPlaylist = await getOwnedSmartPlaylist(ctx, args.smartPlaylistId);
+    const { smartPlaylistId, ...fields } = args;
+    const name = fields.name.trim();
+    if (name === "") {
+      throw new Error("Playlist name cannot be empty");
+    }
+    return await ctx.db.replace(smartPlaylistId, {
+      ...fields,
+      name,
+      userId: smartPlaylist.userId,
+    });
+  },
+});
+
+export const deleteSmartPlaylist = mutation({
+  args: { smartPlaylistId: v.id("smartPlaylists") },
+  handler: async (ctx, args) => {
+    await getOwnedSmartPlaylist(ctx, args.smartPlaylistId);
+    return await ctx.db.delete(args.smartPlaylistId);
+  },
+});
@@ -0,0 +1,158 @@
+import { ConvexError } from "convex/values";
+
+// Validation for track input, shared by the track mutations and the upload form
+// so the client can report the same field errors before anything is uploaded
+
+export interface TrackInput {
+  title: string;
+  artist: string;
+  duration: number;
+  audioUrl?: string;
+  coverUrl?: string;
+  genre?: string;
+  album?: string;
+  year?: number;
+  trackNumber?: number;
+}
+
+export type TrackField = keyof TrackInput;
+export type TrackFieldErrors = Partial<Record<TrackField, string>>;
+
+export const INVALID_TRACK = "INVALID_TRACK";
+
+// Payload of the ConvexError thrown for invalid input
+export type InvalidTrackData = {
+  code: typeof INVALID_TRACK;
+  message: string;
+  fields: TrackFieldErrors;
+};
+
+const MAX_TEXT_LENGTH = 200;
+const MAX_GENRE_LENGTH = 40;
+const MAX_DURATION = 24 * 60 * 60;
+const MIN_YEAR = 1000;
+
+// Collapse runs of whitespace, including newlines and tabs
+function cleanText(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+function requiredText(field: TrackField, label: string, value: string, errors: TrackFieldErrors): string {
+  const text = cleanText(value);
+  if (text === "") {
+    errors[field] = `${label} is required`;
+  } else if (text.length > MAX_TEXT_LENGTH) {
+    errors[field] = `${label} must be at most ${MAX_TEXT_LENGTH} characters`;
+  }
+  return text;
+}
+
+// Empty optional text clears the field
+function optionalText(field: TrackField, label: string, value: string, errors: TrackFieldErrors) {
+  const text = cleanText(value);
+  if (text.length > MAX_TEXT_LENGTH) {
+    errors[field] = `${label} must be at most ${MAX_TEXT_LENGTH} characters`;
+  }
+  return text === "" ? undefined : text;
+}
+
+function webUrl(field: TrackField, label: string, value: string, errors: TrackFieldErrors) {
+  const text = value.trim();
+  try {
+    const { protocol } = new URL(text);
+    if (protocol !== "http:" && protocol !== "https:") {
+      errors[field] = `${label} must start with http:// or https://`;
+    }
+  } catch {
+    errors[field] = `${label} is not a valid URL`;
+  }
+  return text;
+}
+
+// "hip  hop" -> "Hip Hop", "lo-fi" -> "Lo-Fi", "r&b" -> "R&B"
+function normalizeGenre(value: string, errors: TrackFieldErrors) {
+  const text = cleanText(value);
+  if (text === "") return undefined;
+  if (text.length > MAX_GENRE_LENGTH) {
+    errors.genre = `Genre must be at most ${MAX_GENRE_LENGTH} characters`;
+  } else if (!/^[\p{L}\p{N}][\p{L}\p{N} &'/.-]*$/u.test(text)) {
+    errors.genre = "Genre may only contain letters, numbers, spaces and & ' / . -";
+  }
+  return text
+    .split(" ")
+    .map((word) =>
+      word.includes("&")
+        ? word.toUpperCase()
+        : word.replace(/[^-/]+/g, (part) => part.charAt(0).toUpperCase() + part.slice(1).toLowerCase())
+    )
+    .join(" ");
+}
+
+// Validate and normalize the fields present in the input; throws a ConvexError
+// with InvalidTrackData listing every invalid field
+export function validateTrackUpdate(input: Partial<TrackInput>): Partial<TrackInput> {
+  const errors: TrackFieldErrors = {};
+  const result: Partial<TrackInput> = {};
+
+  if (input.title !== undefined) {
+    result.title = requiredText("title", "Title", input.title, errors);
+  }
+  if (input.artist !== undefined) {
+    result.artist = requiredText("artist", "Artist", input.artist, errors);
+  }
+  if (input.duration !== undefined) {
+    if (!Number.isInteger(input.duration) || input.duration <= 0) {
+      errors.duration = "Duration must be a whole number of seconds greater than 0";
+    } else if (input.duration > MAX_DURATION) {
+      errors.duration = "Duration must be at most 24 hours";
+    }
+    result.duration = input.duration;
+  }
+  if (input.audioUrl !== undefined) {
+    result.audioUrl = webUrl("audioUrl", "Audio URL", input.audioUrl, errors);
+  }
+  if (input.coverUrl !== undefined) {
+    result.coverUrl = input.coverUrl.trim() === "" ? undefined : webUrl("coverUrl", "Cover URL", input.coverUrl, errors);
+  }
+  if (input.genre !== undefined) {
+    result.genre = normalizeGenre(input.genre, errors);
+  }
+  if (input.album !== undefined) {
+    result.album = optionalText("album", "Album", input.album, errors);
+  }
+  if (input.year !== undefined) {
+    const latestYear = new Date().getFullYear() + 1;
+    if (!Number.isInteger(input.year) || input.year < MIN_YEAR || input.year > latestYear) {
+      errors.year = `Year must be between ${MIN_YEAR} and ${latestYear}`;
+    }
+    result.year = input.year;
+  }
+  if (input.trackNumber !== undefined) {
+    if (!Number.isInteger(input.trackNumber) || input.trackNumber < 1) {
+      errors.trackNumber = "Track number must be a whole number of 1 or more";
+    }
+    result.trackNumber = input.trackNumber;
+  }
+
+  const messages = Object.values(errors);
+  if (messages.length > 0) {
+    throw new ConvexError<InvalidTrackData>({ code: INVALID_TRACK, message: messages.join("; "), fields: errors });
+  }
+  return result;
+}
+
+export function validateNewTrack(input: TrackInput): TrackInput {
+  // Required fields are always present in the result when they were in the input
+  return validateTrackUpdate(input) as TrackInput;
+}
+
+// Field errors from a failed track mutation, or null for any other error
+export function getTrackFieldErrors(error: unknown): TrackFieldErrors | null {
+  if (error instanceof ConvexError) {
+    const data = error.data as Partial<InvalidTrackData> | null;
+    if (data?.code === INVALID_TRACK && data.fields) {
+      return data.fields;
+    }
+  }
+  return null;
+}
@@ -1,17 +1,153 @@
-import { query, mutation } from "./_generated/server";
+import { query, mutation, internalMutation, QueryCtx, MutationCtx } from "./_generated/server";
 import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { shuffleItems } from "./shuffle";
+import { requireRole } from "./roles";
+import { validateNewTrack, validateTrackUpdate } from "./trackValidation";
+import { checkLoudness } from "./loudness";
+import { trackLoudness } from "./schema";
+import { deleteWaveform } from "./waveforms";
+
+// Text indexed by the "search_text" search index
+function buildSearchText(track: { title: string; artist: string; genre?: string; album?: string }) {
+  return [track.title, track.artist, track.genre, track.album].filter(Boolean).join(" ");
+}
+
+// "Mark Ronson ft. Bruno Mars" / "Uptown  Funk!" -> "mark ronson ft bruno mars|uptown funk"
+export function buildDedupeKey(track: { title: string; artist: string }) {
+  const normalize = (text: string) =>
+    text
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, " ")
+      .trim();
+  return `${normalize(track.artist)}|${normalize(track.title)}`;
+}
+
+// Tracks with the same key whose durations differ by at most this many seconds are duplicates
+export const DUPLICATE_DURATION_TOLERANCE = 3;
+
+// Optional tag fields read from the file on import
+const tagFields = {
+  album: v.optional(v.string()),
+  year: v.optional(v.number()),
+  trackNumber: v.optional(v.number()),
+};
+
+// Insert a track with its search text and dedupe key filled in
+export async function insertTrack(
+  ctx: MutationCtx,
+  track: Omit<Doc<"tracks">, "_id" | "_creationTime" | "searchText" | "dedupeKey">
+) {
+  return await ctx.db.insert("tracks", {
+    ...track,
+    searchText: buildSearchText(track),
+    dedupeKey: buildDedupeKey(track),
+  });
+}
+
+// Patch a track, keeping its search text and dedupe key in sync. A new recording
+// needs measuring again, so replacing the audio drops its loudness and waveform.
+export async function patchTrack(
+  ctx: MutationCtx,
+  track: Doc<"tracks">,
+  updates: Partial<Omit<Doc<"tracks">, "_id" | "_creationTime" | "searchText" | "dedupeKey">>
+) {
+  const audioChanged = updates.audioUrl !== undefined && updates.audioUrl !== track.audioUrl;
+  if (audioChanged) {
+    await deleteWaveform(ctx, track._id);
+  }
+  const merged = { ...track, ...updates };
+  return await ctx.db.patch(track._id, {
+    ...updates,
+    ...(audioChanged ? { loudness: undefined } : {}),
+    searchText: buildSearchText(merged),
+    dedupeKey: buildDedupeKey(merged),
+  });
+}
+
+// Other tracks that look like the same recording: same normalized artist + title
+// with a similar duration, or the same audio URL
+export async function findDuplicates(
+  ctx: QueryCtx,
+  track: { _id?: Id<"tracks">; title: string; artist: string; duration: number; audioUrl?: string }
+) {
+  const sameKey = await ctx.db
+    .query("tracks")
+    .withIndex("by_dedupeKey", (q) => q.eq("dedupeKey", buildDedupeKey(track)))
+    .collect();
+  const sameUrl = track.audioUrl
+    ? await ctx.db
+        .query("tracks")
+        .withIndex("by_audioUrl", (q) => q.eq("audioUrl", track.audioUrl))
+        .collect()
+    : [];
+  const duplicates = new Map<Id<"tracks">, Doc<"tracks">>();
+  for (const other of sameKey) {
+    if (Math.abs(other.duration - track.duration) <= DUPLICATE_DURATION_TOLERANCE) {
+      duplicates.set(other._id, other);
+    }
+  }
+  for (const other of sameUrl) {
+    duplicates.set(other._id, other);
+  }
+  if (track._id) {
+    duplicates.delete(track._id);
+  }
+  return [...duplicates.values()];
+}
+
+// Insert a track and report likely duplicates so the client can warn about them
+async function insertTrackWithWarnings(
+  ctx: MutationCtx,
+  track: Omit<Doc<"tracks">, "_id" | "_creationTime" | "searchText" | "dedupeKey">
+) {
+  const duplicates = await findDuplicates(ctx, track);
+  const trackId = await insertTrack(ctx, track);
+  return {
+    trackId,
+    possibleDuplicates: duplicates.map(({ _id, title, artist, duration }) => ({ _id, title, artist, duration })),
+  };
+}
+
+// Uploaded audio and artwork are served from file storage; the rest keep their external URLs
+export async function withFileUrl(ctx: QueryCtx, track: Doc<"tracks">) {
+  const storageUrl = track.storageId ? await ctx.storage.getUrl(track.storageId) : null;
+  const coverStorageUrl = track.coverStorageId ? await ctx.storage.getUrl(track.coverStorageId) : null;
+  return {
+    ...track,
+    audioUrl: storageUrl ?? track.audioUrl ?? "",
+    coverUrl: coverStorageUrl ?? track.coverUrl,
+  };
+}
+
+export async function withFileUrls(ctx: QueryCtx, tracks: Doc<"tracks">[]) {
+  return await Promise.all(tracks.map((track) => withFileUrl(ctx, track)));
+}
 
 export const getAllTracks = query({
   args: {},
   handler: async (ctx) => {
-    return await ctx.db.query("tracks").collect();
+    return await withFileUrls(ctx, await ctx.db.query("tracks").collect());
+  },
+});
+
+// One page of the library in insertion order
+export const listTracks = query({
+  args: { paginationOpts: paginationOptsValidator },
+  handler: async (ctx, args) => {
+    const result = await ctx.db.query("tracks").order("asc").paginate(args.paginationOpts);
+    return { ...result, page: await withFileUrls(ctx, result.page) };
   },
 });
 
 export const getTrack = query({
   args: { trackId: v.id("tracks") },
   handler: async (ctx, args) => {
-    return await ctx.db.get(args.trackId);
+    const track = await ctx.db.get(args.trackId);
+    return track ? await withFileUrl(ctx, track) : null;
   },
 });
 
@@ -23,9 +159,76 @@ export const addTrack = mutation({
     audioUrl: v.string(),
     coverUrl: v.optional(v.string()),
     genre: v.optional(v.string()),
+    ...tagFields,
   },
   handler: async (ctx, args) => {
-    return await ctx.db.insert("tracks", args);
+    await requireRole(ctx, "curator");
+    return await insertTrackWithWarnings(ctx, validateNewTrack(args));
+  },
+});
+
+// Short-lived URL the client POSTs an audio or artwork file to
+export const generateUploadUrl = mutation({
+  args: {},
+  handler: async (ctx) => {
+    await requireRole(ctx, "curator");
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+// Create a track from an uploaded file; the duration is read from the file by the client.
+// A failed mutation rolls back its own writes, storage deletes included, so when this
+// throws the client removes the uploaded files with discardUploads.
+export const addUploadedTrack = mutation({
+  args: {
+    storageId: v.id("_storage"),
+    title: v.string(),
+    artist: v.string(),
+    duration: v.number(),
+    coverUrl: v.optional(v.string()),
+    coverStorageId: v.optional(v.id("_storage")),
+    genre: v.optional(v.string()),
+    ...tagFields,
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireRole(ctx, "curator");
+    const { storageId, coverStorageId, ...fields } = args;
+    const track = validateNewTrack(fields);
+    const file = await ctx.db.system.get(storageId);
+    if (!file) {
+      throw new Error("Uploaded file not found");
+    }
+    if (!file.contentType?.startsWith("audio/")) {
+      throw new Error("Only audio files can be uploaded");
+    }
+    if (coverStorageId) {
+      const cover = await ctx.db.system.get(coverStorageId);
+      if (!cover?.contentType?.startsWith("image/")) {
+        throw new Error("Artwork must be an image");
+      }
+    }
+    return await insertTrackWithWarnings(ctx, { ...track, storageId, coverStorageId, uploadedBy: userId });
+  },
+});
+
+// Delete files uploaded for a track that could not be added. Files a track uses are kept.
+export const discardUploads = mutation({
+  args: { storageIds: v.array(v.id("_storage")) },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, "curator");
+    for (const storageId of args.storageIds) {
+      const usedAsAudio = await ctx.db
+        .query("tracks")
+        .withIndex("by_storageId", (q) => q.eq("storageId", storageId))
+        .first();
+      const usedAsCover = await ctx.db
+        .query("tracks")
+        .withIndex("by_coverStorageId", (q) => q.eq("coverStorageId", storageId))
+        .first();
+      if (!usedAsAudio && !usedAsCover && (await ctx.db.system.get(storageId))) {
+        await ctx.storage.delete(storageId);
+      }
+    }
   },
 });
 
@@ -38,168 +241,168 @@ export const updateTrack = mutation({
     audioUrl: v.optional(v.string()),
     coverUrl: v.optional(v.string()),
     genre: v.optional(v.string()),
+    ...tagFields,
+  },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, "curator");
+    const { trackId, ...fields } = args;
+    const updates = validateTrackUpdate(fields);
+    const track = await ctx.db.get(trackId);
+    if (!track) {
+      throw new Error("Track not found");
+    }
+    return await patchTrack(ctx, track, updates);
   },
+});
+
+// Store the loudness measured by a curator's player. Listeners' players only use their
+// measurements locally, so nothing another user hears depends on an untrusted client.
+export const setTrackLoudness = mutation({
+  args: { trackId: v.id("tracks"), loudness: trackLoudness },
   handler: async (ctx, args) => {
-    const { trackId, ...updates } = args;
-    return await ctx.db.patch(trackId, updates);
+    await requireRole(ctx, "curator");
+    const error = checkLoudness(args.loudness);
+    if (error) {
+      throw new Error(error);
+    }
+    const track = await ctx.db.get(args.trackId);
+    if (!track) {
+      throw new Error("Track not found");
+    }
+    await ctx.db.patch(args.trackId, { loudness: args.loudness });
   },
 });
 
+// Delete tracks with everything that refers to them: stored files, waveforms, likes,
+// plays and their entries in playlists
+async function deleteTracks(ctx: MutationCtx, tracks: Doc<"tracks">[]) {
+  const trackIds = new Set(tracks.map((track) => track._id));
+  // Playlists have no index on their track list, so every one is checked
+  for (const playlist of await ctx.db.query("playlists").collect()) {
+    if (playlist.trackIds.some((trackId) => trackIds.has(trackId))) {
+      await ctx.db.patch(playlist._id, {
+        trackIds: playlist.trackIds.filter((trackId) => !trackIds.has(trackId)),
+      });
+    }
+  }
+  for (const track of tracks) {
+    const likes = await ctx.db
+      .query("likes")
+      .withIndex("by_track", (q) => q.eq("trackId", track._id))
+      .collect();
+    for (const like of likes) {
+      await ctx.db.delete(like._id);
+    }
+    const plays = await ctx.db
+      .query("plays")
+      .withIndex("by_track", (q) => q.eq("trackId", track._id))
+      .collect();
+    for (const play of plays) {
+      await ctx.db.delete(play._id);
+    }
+    if (track.storageId) {
+      await ctx.storage.delete(track.storageId);
+    }
+    if (track.coverStorageId) {
+      await ctx.storage.delete(track.coverStorageId);
+    }
+    await deleteWaveform(ctx, track._id);
+    await ctx.db.delete(track._id);
+  }
+}
+
 export const deleteTrack = mutation({
   args: { trackId: v.id("tracks") },
   handler: async (ctx, args) => {
-    return await ctx.db.delete(args.trackId);
+    await requireRole(ctx, "admin");
+    const track = await ctx.db.get(args.trackId);
+    if (!track) {
+      throw new Error("Track not found");
+    }
+    await deleteTracks(ctx, [track]);
   },
 });
 
 export const getTracksByGenre = query({
   args: { genre: v.string() },
   handler: async (ctx, args) => {
-    return await ctx.db
+    const tracks = await ctx.db
       .query("tracks")
       .filter((q) => q.eq(q.field("genre"), args.genre))
       .collect();
+    return await withFileUrls(ctx, tracks);
   },
 });
 
+// Full-text search over title, artist and genre, ranked by relevance
 export const searchTracks = query({
-  args: { searchTerm: v.string() },
+  args: {
+    searchTerm: v.string(),
+    genre: v.optional(v.string()),
+    artist: v.optional(v.string()),
+    paginationOpts: paginationOptsValidator,
+  },
   handler: async (ctx, args) => {
-    const tracks = await ctx.db.query("tracks").collect();
-    return tracks.filter(
-      (track) =>
-        track.title.toLowerCase().includes(args.searchTerm.toLowerCase()) ||
-        track.artist.toLowerCase().includes(args.searchTerm.toLowerCase())
-    );
+    const result = await ctx.db
+      .query("tracks")
+      .withSearchIndex("search_text", (q) => {
+        const search = q.search("searchText", args.searchTerm);
+        if (args.genre !== undefined && args.artist !== undefined) {
+          return search.eq("genre", args.genre).eq("artist", args.artist);
+        }
+        if (args.genre !== undefined) {
+          return search.eq("genre", args.genre);
+        }
+        if (args.artist !== undefined) {
+          return search.eq("artist", args.artist);
+        }
+        return search;
+      })
+      .paginate(args.paginationOpts);
+    return { ...result, page: await withFileUrls(ctx, result.page) };
   },
 });
 
-// Initialize with popular modern English songs
-export const initializeTracks = mutation({
+// Fill in searchText and dedupeKey for tracks created before those fields existed
+export const backfillDerivedFields = internalMutation({
   args: {},
   handler: async (ctx) => {
-    const existingTracks = await ctx.db.query("tracks").collect();
-    if (existingTracks.length > 0) {
-      return "Tracks already exist";
-    }
-
-    const famousTracks = [
-      {
-        title: "Shape of You",
-        artist: "Ed Sheeran",
-        duration: 233, // 3:53
-        audioUrl: "https://www.soundjay.com/misc/sounds/bell-ringing-05.wav",
-        coverUrl: "https://images.unsplash.com/photo-1493225457124-a3eb161ffa5f?w=300&h=300&fit=crop",
-        genre: "Pop",
-      },
-      {
-        title: "Blinding Lights",
-        artist: "The Weeknd",
-        duration: 200, // 3:20
-        audioUrl: "https://www.soundjay.com/misc/sounds/bell-ringing-05.wav",
-        coverUrl: "https://images.unsplash.com/photo-1511671782779-c97d3d27a1d4?w=300&h=300&fit=crop",
-        genre: "Pop",
-      },
-      {
-        title: "Someone Like You",
-        artist: "Adele",
-        duration: 285, // 4:45
-        audioUrl: "https://www.soundjay.com/misc/sounds/bell-ringing-05.wav",
-        coverUrl: "https://images.unsplash.com/photo-1506905925346-21bda4d32df4?w=300&h=300&fit=crop",
-        genre: "Soul",
-      },
-      {
-        title: "Uptown Funk",
-        artist: "Mark Ronson ft. Bruno Mars",
-        duration: 270, // 4:30
-        audioUrl: "https://www.soundjay.com/misc/sounds/bell-ringing-05.wav",
-        coverUrl: "https://images.unsplash.com/photo-1571330735066-03aaa9429d89?w=300&h=300&fit=crop",
-        genre: "Funk",
-      },
-      {
-        title: "Rolling in the Deep",
-        artist: "Adele",
-        duration: 228, // 3:48
-        audioUrl: "https://www.soundjay.com/misc/sounds/bell-ringing-05.wav",
-        coverUrl: "https://images.unsplash.com/photo-1598488035139-bdbb2231ce04?w=300&h=300&fit=crop",
-        genre: "Soul",
-      },
-      {
-        title: "Bad Guy",
-        artist: "Billie Eilish",
-        duration: 194, // 3:14
-        audioUrl: "https://www.soundjay.com/misc/sounds/bell-ringing-05.wav",
-        coverUrl: "https://images.unsplash.com/photo-1493225457124-a3eb161ffa5f?w=300&h=300&fit=crop",
-        genre: "Alternative",
-      },
-      {
-        title: "Thinking Out Loud",
-        artist: "Ed Sheeran",
-        duration: 281, // 4:41
-        audioUrl: "https://www.soundjay.com/misc/sounds/bell-ringing-05.wav",
-        coverUrl: "https://images.unsplash.com/photo-1511671782779-c97d3d27a1d4?w=300&h=300&fit=crop",
-        genre: "Pop",
-      },
-      {
-        title: "Watermelon Sugar",
-        artist: "Harry Styles",
-        duration: 174, // 2:54
-        audioUrl: "https://www.soundjay.com/misc/sounds/bell-ringing-05.wav",
-        coverUrl: "https://images.unsplash.com/photo-1506905925346-21bda4d32df4?w=300&h=300&fit=crop",
-        genre: "Pop",
-      },
-      {
-        title: "Levitating",
-        artist: "Dua Lipa",
-        duration: 203, // 3:23
-        audioUrl: "https://www.soundjay.com/misc/sounds/bell-ringing-05.wav",
-        coverUrl: "https://images.unsplash.com/photo-1571330735066-03aaa9429d89?w=300&h=300&fit=crop",
-        genre: "Pop",
-      },
-      {
-        title: "Stay",
-        artist: "The Kid LAROI & Justin Bieber",
-        duration: 141, // 2:21
-        audioUrl: "https://www.soundjay.com/misc/sounds/bell-ringing-05.wav",
-        coverUrl: "https://images.unsplash.com/photo-1598488035139-bdbb2231ce04?w=300&h=300&fit=crop",
-        genre: "Pop",
-      },
-      {
-        title: "Perfect",
-        artist: "Ed Sheeran",
-        duration: 263, // 4:23
-        audioUrl: "https://www.soundjay.com/misc/sounds/bell-ringing-05.wav",
-        coverUrl: "https://images.unsplash.com/photo-1493225457124-a3eb161ffa5f?w=300&h=300&fit=crop",
-        genre: "Pop",
-      },
-      {
-        title: "Anti-Hero",
-        artist: "Taylor Swift",
-        duration: 200, // 3:20
-        audioUrl: "https://www.soundjay.com/misc/sounds/bell-ringing-05.wav",
-        coverUrl: "https://images.unsplash.com/photo-1511671782779-c97d3d27a1d4?w=300&h=300&fit=crop",
-        genre: "Pop",
-      },
-    ];
-
-    for (const track of famousTracks) {
-      await ctx.db.insert("tracks", track);
+    const tracks = await ctx.db.query("tracks").collect();
+    let updated = 0;
+    for (const track of tracks) {
+      const searchText = buildSearchText(track);
+      const dedupeKey = buildDedupeKey(track);
+      if (track.searchText !== searchText || track.dedupeKey !== dedupeKey) {
+        await ctx.db.patch(track._id, { searchText, dedupeKey });
+        updated++;
+      }
     }
-
-    return "Popular English tracks initialized";
+    return `Updated search text and dedupe keys for ${updated} tracks`;
   },
 });
 
+// Shuffle the whole library, or just the given tracks (e.g. a playlist's trackIds).
+// Same strategies and seed handling as MusicLinkedList.shuffle, so with a seed this
+// matches the player's shuffle of the same set of tracks.
 export const shuffleTracks = query({
-  args: {},
-  handler: async (ctx) => {
-    const tracks = await ctx.db.query("tracks").collect();
-    // Simple shuffle algorithm
-    for (let i = tracks.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [tracks[i], tracks[j]] = [tracks[j], tracks[i]];
-    }
-    return tracks;
+  args: {
+    strategy: v.optional(
+      v.union(v.literal("random"), v.literal("seeded"), v.literal("spread"))
+    ),
+    seed: v.optional(v.number()),
+    trackIds: v.optional(v.array(v.id("tracks"))),
+  },
+  handler: async (ctx, args) => {
+    const tracks = args.trackIds
+      ? (await Promise.all(args.trackIds.map((trackId) => ctx.db.get(trackId)))).filter(
+          (track): track is Doc<"tracks"> => track !== null
+        )
+      : await ctx.db.query("tracks").collect();
+    const strategy = args.strategy ?? (args.seed === undefined ? "random" : "seeded");
+    return shuffleItems(await withFileUrls(ctx, tracks), (track) => track._id, {
+      strategy,
+      seed: args.seed,
+    });
   },
 });
 
@@ -207,44 +410,9 @@ export const shuffleTracks = query({
 export const clearAllTracks = mutation({
   args: {},
   handler: async (ctx) => {
+    await requireRole(ctx, "admin");
     const tracks = await ctx.db.query("tracks").collect();
-    for (const track of tracks) {
-      await ctx.db.delete(track._id);
-    }
+    await deleteTracks(ctx, tracks);
     return `Cleared ${tracks.length} tracks`;
   },
 });
-
-// Force reinitialize with new tracks
-export const forceReinitializeTracks = mutation({
-  args: {},
-  handler: async (ctx): Promise<string> => {
-    // Clear existing tracks first
-    const existingTracks = await ctx.db.query("tracks").collect();
-    for (const track of existingTracks) {
-      await ctx.db.delete(track._id);
-    }
-    
-    // Add new tracks
-    const famousTracks = [
-      { title: "Shape of You", artist: "Ed Sheeran", duration: 233, audioUrl: "https://www.soundjay.com/misc/sounds/bell-ringing-05.wav", coverUrl: "https://images.unsplash.com/photo-1493225457124-a3eb161ffa5f?w=300&h=300&fit=crop", genre: "Pop" },
-      { title: "Blinding Lights", artist: "The Weeknd", duration: 200, audioUrl: "https://www.soundjay.com/misc/sounds/bell-ringing-05.wav", coverUrl: "https://images.unsplash.com/photo-1511671782779-c97d3d27a1d4?w=300&h=300&fit=crop", genre: "Pop" },
-      { title: "Someone Like You", artist: "Adele", duration: 285, audioUrl: "https://www.soundjay.com/misc/sounds/bell-ringing-05.wav", coverUrl: "https://images.unsplash.com/photo-1506905925346-21bda4d32df4?w=300&h=300&fit=crop", genre: "Soul" },
-      { title: "Uptown Funk", artist: "Mark Ronson ft. Bruno Mars", duration: 270, audioUrl: "https://www.soundjay.com/misc/sounds/bell-ringing-05.wav", coverUrl: "https://images.unsplash.com/photo-1571330735066-03aaa9429d89?w=300&h=300&fit=crop", genre: "Funk" },
-      { title: "Rolling in the Deep", artist: "Adele", duration: 228, audioUrl: "https://www.soundjay.com/misc/sounds/bell-ringing-05.wav", coverUrl: "https://images.unsplash.com/photo-1598488035139-bdbb2231ce04?w=300&h=300&fit=crop", genre: "Soul" },
-      { title: "Bad Guy", artist: "Billie Eilish", duration: 194, audioUrl: "https://www.soundjay.com/misc/sounds/bell-ringing-05.wav", coverUrl: "https://images.unsplash.com/photo-1493225457124-a3eb161ffa5f?w=300&h=300&fit=crop", genre: "Alternative" },
-      { title: "Thinking Out Loud", artist: "Ed Sheeran", duration: 281, audioUrl: "https://www.soundjay.com/misc/sounds/bell-ringing-05.wav", coverUrl: "https://images.unsplash.com/photo-1511671782779-c97d3d27a1d4?w=300&h=300&fit=crop", genre: "Pop" },
-      { title: "Watermelon Sugar", artist: "Harry Styles", duration: 174, audioUrl: "https://www.soundjay.com/misc/sounds/bell-ringing-05.wav", coverUrl: "https://images.unsplash.com/photo-1506905925346-21bda4d32df4?w=300&h=300&fit=crop", genre: "Pop" },
-      { title: "Levitating", artist: "Dua Lipa", duration: 203, audioUrl: "https://www.soundjay.com/misc/sounds/bell-ringing-05.wav", coverUrl: "https://images.unsplash.com/photo-1571330735066-03aaa9429d89?w=300&h=300&fit=crop", genre: "Pop" },
-      { title: "Stay", artist: "The Kid LAROI & Justin Bieber", duration: 141, audioUrl: "https://www.soundjay.com/misc/sounds/bell-ringing-05.wav", coverUrl: "https://images.unsplash.com/photo-1598488035139-bdbb2231ce04?w=300&h=300&fit=crop", genre: "Pop" },
-      { title: "Perfect", artist: "Ed Sheeran", duration: 263, audioUrl: "https://www.soundjay.com/misc/sounds/bell-ringing-05.wav", coverUrl: "https://images.unsplash.com/photo-1493225457124-a3eb161ffa5f?w=300&h=300&fit=crop", genre: "Pop" },
-      { title: "Anti-Hero", artist: "Taylor Swift", duration: 200, audioUrl: "https://www.soundjay.com/misc/sounds/bell-ringing-05.wav", coverUrl: "https://images.unsplash.com/photo-1511671782779-c97d3d27a1d4?w=300&h=300&fit=crop", genre: "Pop" },
-    ];
-
-    for (const track of famousTracks) {
-      await ctx.db.insert("tracks", track);
-    }
-
-    return "Tracks reinitialized with new popular English songs";
-  },
-});
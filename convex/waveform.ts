@@ -0,0 +1,15 @@
+// Waveform overview shown as the seek bar, shared by the player and the waveform functions
+
+// Number of bars across the whole track
+export const WAVEFORM_POINTS = 200;
+
+// Returns an error message, or null if the peaks can be stored
+export function checkWaveformPeaks(peaks: number[]): string | null {
+  if (peaks.length !== WAVEFORM_POINTS) {
+    return `A waveform needs exactly ${WAVEFORM_POINTS} points`;
+  }
+  if (!peaks.every((peak) => Number.isFinite(peak) && peak >= 0 && peak <= 1)) {
+    return "Waveform points must be between 0 and 1";
+  }
+  return null;
+}
@@ -0,0 +1,52 @@
+import { query, mutation, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import { checkWaveformPeaks } from "./waveform";
+import { requireRole } from "./roles";
+
+// Drop a track's waveform, e.g. when the track is deleted or its audio replaced
+export async function deleteWaveform(ctx: MutationCtx, trackId: Id<"tracks">) {
+  const waveform = await ctx.db
+    .query("waveforms")
+    .withIndex("by_track", (q) => q.eq("trackId", trackId))
+    .unique();
+  if (waveform) {
+    await ctx.db.delete(waveform._id);
+  }
+}
+
+// Peaks of the track, or null if no player has measured it yet
+export const getWaveform = query({
+  args: { trackId: v.id("tracks") },
+  handler: async (ctx, args) => {
+    const waveform = await ctx.db
+      .query("waveforms")
+      .withIndex("by_track", (q) => q.eq("trackId", args.trackId))
+      .unique();
+    return waveform?.peaks ?? null;
+  },
+});
+
+// Store the waveform computed by a curator's player (see setTrackLoudness)
+export const saveWaveform = mutation({
+  args: { trackId: v.id("tracks"), peaks: v.array(v.number()) },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, "curator");
+    const error = checkWaveformPeaks(args.peaks);
+    if (error) {
+      throw new Error(error);
+    }
+    if (!(await ctx.db.get(args.trackId))) {
+      throw new Error("Track not found");
+    }
+    const existing = await ctx.db
+      .query("waveforms")
+      .withIndex("by_track", (q) => q.eq("trackId", args.trackId))
+      .unique();
+    if (existing) {
+      await ctx.db.patch(existing._id, { peaks: args.peaks });
+    } else {
+      await ctx.db.insert("waveforms", { trackId: args.trackId, peaks: args.peaks });
+    }
+  },
+});
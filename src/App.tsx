@@ -1,14 +1,24 @@
-import { Authenticated, Unauthenticated, useQuery, useMutation } from "convex/react";
+import { Authenticated, Unauthenticated, useQuery, usePaginatedQuery } from "convex/react";
 import { api } from "../convex/_generated/api";
 import { SignInForm } from "./SignInForm";
 import { SignOutButton } from "./SignOutButton";
 import { Toaster } from "sonner";
 import { MusicPlayer } from "./components/MusicPlayer";
 import { AboutUs } from "./components/AboutUs";
+import { Stats } from "./components/Stats";
+import { ApiTokens } from "./components/ApiTokens";
+import { UploadTrack } from "./components/UploadTrack";
+import { DuplicateTracks } from "./components/DuplicateTracks";
+import { PlaylistPicker, PlaylistSelection, LIKED_SONGS, SMART_PREFIX } from "./components/PlaylistPicker";
+import { Id } from "../convex/_generated/dataModel";
 import { useState, useEffect } from "react";
 
+type View = 'player' | 'stats' | 'api' | 'about';
+
+const LIBRARY_PAGE_SIZE = 50;
+
 export default function App() {
-  const [currentView, setCurrentView] = useState<'player' | 'about'>('player');
+  const [currentView, setCurrentView] = useState<View>('player');
 
   return (
     <div className="min-h-screen flex flex-col bg-gradient-to-br from-purple-50 to-blue-50">
@@ -36,6 +46,26 @@ export default function App() {
               >
                 Music Player
               </button>
+              <button
+                onClick={() => setCurrentView('stats')}
+                className={`px-3 py-2 rounded-lg font-medium transition-colors ${
+                  currentView === 'stats'
+                    ? 'bg-purple-100 text-purple-700'
+                    : 'text-gray-600 hover:text-gray-800'
+                }`}
+              >
+                Stats
+              </button>
+              <button
+                onClick={() => setCurrentView('api')}
+                className={`px-3 py-2 rounded-lg font-medium transition-colors ${
+                  currentView === 'api'
+                    ? 'bg-purple-100 text-purple-700'
+                    : 'text-gray-600 hover:text-gray-800'
+                }`}
+              >
+                API
+              </button>
               <button
                 onClick={() => setCurrentView('about')}
                 className={`px-3 py-2 rounded-lg font-medium transition-colors ${
@@ -63,29 +93,54 @@ export default function App() {
 }
 
 function Content({ currentView, setCurrentView }: { 
-  currentView: 'player' | 'about';
-  setCurrentView: (view: 'player' | 'about') => void;
+  currentView: View;
+  setCurrentView: (view: View) => void;
 }) {
   const loggedInUser = useQuery(api.auth.loggedInUser);
-  const tracks = useQuery(api.tracks.getAllTracks);
-  const initializeTracks = useMutation(api.tracks.initializeTracks);
-  const forceReinitializeTracks = useMutation(api.tracks.forceReinitializeTracks);
+  const {
+    results: libraryTracks,
+    status: libraryStatus,
+    loadMore: loadMoreTracks,
+  } = usePaginatedQuery(api.tracks.listTracks, {}, { initialNumItems: LIBRARY_PAGE_SIZE });
+  const tracks = libraryStatus === "LoadingFirstPage" ? undefined : libraryTracks;
+  const [selectedPlaylistId, setSelectedPlaylistId] = useState<PlaylistSelection>(null);
+  const isLikedSongs = selectedPlaylistId === LIKED_SONGS;
+  const smartPlaylistId = selectedPlaylistId?.startsWith(SMART_PREFIX)
+    ? (selectedPlaylistId.slice(SMART_PREFIX.length) as Id<"smartPlaylists">)
+    : null;
+  const savedPlaylistId = isLikedSongs || smartPlaylistId ? null : (selectedPlaylistId as Id<"playlists"> | null);
+  const savedPlaylistTracks = useQuery(
+    api.playlists.getPlaylistTracks,
+    savedPlaylistId ? { playlistId: savedPlaylistId } : "skip"
+  );
+  const likedTracks = useQuery(api.likes.getLikedTracks, isLikedSongs ? {} : "skip");
+  const smartPlaylistTracks = useQuery(
+    api.smartPlaylists.getSmartPlaylistTracks,
+    smartPlaylistId ? { smartPlaylistId } : "skip"
+  );
+  const playlistTracks = isLikedSongs
+    ? likedTracks
+    : smartPlaylistId
+      ? smartPlaylistTracks
+      : savedPlaylistTracks;
+  const role = useQuery(api.roles.myRole);
+  const canManageLibrary = role === "curator" || role === "admin";
+
+  // Keep fetching pages until the whole library is loaded; the player appends each one
+  useEffect(() => {
+    if (libraryStatus === "CanLoadMore") {
+      loadMoreTracks(LIBRARY_PAGE_SIZE);
+    }
+  }, [libraryStatus, loadMoreTracks]);
 
+  // Fall back to the whole library if the selected playlist disappears
   useEffect(() => {
-    if (tracks && tracks.length === 0) {
-      initializeTracks().catch(console.error);
-    } else if (tracks && tracks.length > 0) {
-      // Check if we have the old tracks (Queen, Eagles, etc.) and reinitialize with new ones
-      const hasOldTracks = tracks.some(track => 
-        track.title === "Bohemian Rhapsody" || 
-        track.title === "Hotel California" || 
-        track.title === "Stairway to Heaven"
-      );
-      if (hasOldTracks) {
-        forceReinitializeTracks().catch(console.error);
-      }
+    if (selectedPlaylistId && playlistTracks === null) {
+      setSelectedPlaylistId(null);
     }
-  }, [tracks, initializeTracks, forceReinitializeTracks]);
+  }, [selectedPlaylistId, playlistTracks]);
+
+  const activeTracks = selectedPlaylistId ? playlistTracks : tracks;
 
   if (loggedInUser === undefined) {
     return (
@@ -136,6 +191,26 @@ function Content({ currentView, setCurrentView }: {
           >
             Music Player
           </button>
+          <button
+            onClick={() => setCurrentView('stats')}
+            className={`flex-1 px-4 py-2 rounded-lg font-medium transition-colors ${
+              currentView === 'stats'
+                ? 'bg-purple-600 text-white'
+                : 'bg-gray-200 text-gray-700'
+            }`}
+          >
+            Stats
+          </button>
+          <button
+            onClick={() => setCurrentView('api')}
+            className={`flex-1 px-4 py-2 rounded-lg font-medium transition-colors ${
+              currentView === 'api'
+                ? 'bg-purple-600 text-white'
+                : 'bg-gray-200 text-gray-700'
+            }`}
+          >
+            API
+          </button>
           <button
             onClick={() => setCurrentView('about')}
             className={`flex-1 px-4 py-2 rounded-lg font-medium transition-colors ${
@@ -150,8 +225,37 @@ function Content({ currentView, setCurrentView }: {
 
         {currentView === 'player' && (
           <div>
-            {tracks && tracks.length > 0 ? (
-              <MusicPlayer tracks={tracks} />
+            <PlaylistPicker
+              selectedPlaylistId={selectedPlaylistId}
+              onSelect={setSelectedPlaylistId}
+            />
+            {canManageLibrary && <UploadTrack />}
+            {role === "admin" && <DuplicateTracks />}
+            {selectedPlaylistId && activeTracks && activeTracks.length === 0 ? (
+              <div className="bg-white rounded-lg shadow-lg p-8 text-center">
+                <p className="text-gray-600">
+                  {isLikedSongs
+                    ? "You haven't liked any songs yet. Tap the heart on a track to add it here."
+                    : smartPlaylistId
+                      ? 'No tracks match these rules yet.'
+                      : 'This playlist is empty. Add tracks to it from "All tracks".'}
+                </p>
+              </div>
+            ) : activeTracks && activeTracks.length === 0 && libraryStatus === "Exhausted" ? (
+              <div className="bg-white rounded-lg shadow-lg p-8 text-center">
+                <p className="text-gray-600">
+                  {canManageLibrary
+                    ? 'The library is empty. Upload a track to get started.'
+                    : 'The library is empty. Ask a curator to add some music.'}
+                </p>
+              </div>
+            ) : activeTracks && activeTracks.length > 0 ? (
+              // A fresh player per list, so order, queue and undo history do not leak between lists
+              <MusicPlayer
+                key={selectedPlaylistId ?? "library"}
+                tracks={activeTracks}
+                playlistId={savedPlaylistId}
+              />
             ) : (
               <div className="bg-white rounded-lg shadow-lg p-8 text-center">
                 <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600 mx-auto mb-4"></div>
@@ -161,6 +265,10 @@ function Content({ currentView, setCurrentView }: {
           </div>
         )}
 
+        {currentView === 'stats' && <Stats />}
+
+        {currentView === 'api' && <ApiTokens />}
+
         {currentView === 'about' && <AboutUs />}
       </Authenticated>
     </div>
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { toast } from 'sonner';
+import { api } from '../../convex/_generated/api';
+import { Id } from '../../convex/_generated/dataModel';
+
+// HTTP actions are served from the deployment's .site domain
+const API_BASE_URL = `${(import.meta.env.VITE_CONVEX_URL as string).replace(/\.cloud\/?$/, '.site')}/api/v1`;
+
+export const ApiTokens: React.FC = () => {
+  const tokens = useQuery(api.apiTokens.listMyApiTokens);
+  const createApiToken = useMutation(api.apiTokens.createApiToken);
+  const revokeApiToken = useMutation(api.apiTokens.revokeApiToken);
+
+  const [name, setName] = useState('');
+  // The secret is only available right after creation
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setNewToken(await createApiToken({ name }));
+      setName('');
+    } catch {
+      toast.error('Could not create token');
+    }
+  };
+
+  const handleRevoke = async (tokenId: Id<"apiTokens">, tokenName: string) => {
+    if (!window.confirm(`Revoke "${tokenName}"? Apps using it will stop working.`)) return;
+    try {
+      await revokeApiToken({ tokenId });
+      toast.success(`Revoked "${tokenName}"`);
+    } catch {
+      toast.error('Could not revoke token');
+    }
+  };
+
+  const handleCopy = (token: string) => {
+    navigator.clipboard.writeText(token).then(
+      () => toast.success('Token copied'),
+      () => toast.error('Could not copy token')
+    );
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <h2 className="text-2xl font-bold text-gray-800">🔑 API Access</h2>
+
+      <div className="bg-white rounded-lg shadow-lg p-6 space-y-3">
+        <p className="text-gray-600">
+          Use an API token to read the library and manage your playlists from scripts and other apps.
+          Send it as <code className="bg-gray-100 px-1 rounded">Authorization: Bearer &lt;token&gt;</code>.
+        </p>
+        <p className="text-sm text-gray-500 break-all">
+          Base URL: <code className="bg-gray-100 px-1 rounded">{API_BASE_URL}</code>
+        </p>
+        <form onSubmit={(e) => void handleCreate(e)} className="flex gap-2">
+          <input
+            type="text"
+            placeholder="Token name, e.g. Home server"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="flex-1 px-3 py-1 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+          <button
+            type="submit"
+            disabled={name.trim() === ''}
+            className="text-sm px-3 py-1 rounded bg-purple-600 text-white hover:bg-purple-700 transition-colors disabled:opacity-50"
+          >
+            Create token
+          </button>
+        </form>
+
+        {newToken && (
+          <div className="bg-purple-50 border border-purple-200 rounded-lg p-3 space-y-2">
+            <p className="text-sm text-purple-800">
+              Copy this token now. It will not be shown again.
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 text-sm bg-white px-2 py-1 rounded break-all">{newToken}</code>
+              <button
+                onClick={() => handleCopy(newToken)}
+                className="text-sm px-3 py-1 rounded bg-gray-100 hover:bg-gray-200 transition-colors"
+              >
+                Copy
+              </button>
+              <button
+                onClick={() => setNewToken(null)}
+                className="text-sm px-3 py-1 rounded bg-gray-100 hover:bg-gray-200 transition-colors"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <h3 className="text-lg font-semibold text-gray-800 mb-3">Your tokens</h3>
+        {tokens === undefined ? (
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-purple-600 mx-auto"></div>
+        ) : tokens.length === 0 ? (
+          <p className="text-gray-500 text-sm">No tokens yet.</p>
+        ) : (
+          <ul className="divide-y">
+            {tokens.map((token) => (
+              <li key={token._id} className="flex items-center justify-between py-2">
+                <div>
+                  <p className="font-medium text-gray-800">{token.name}</p>
+                  <p className="text-xs text-gray-500">
+                    <code>{token.prefix}…</code> · created {new Date(token.createdAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <button
+                  onClick={() => void handleRevoke(token._id, token.name)}
+                  className="text-sm px-3 py-1 rounded text-red-600 hover:bg-red-50 transition-colors"
+                >
+                  Revoke
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
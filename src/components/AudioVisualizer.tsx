@@ -0,0 +1,77 @@
+import React, { useEffect, useRef } from 'react';
+import { PlaybackEngine } from '../lib/PlaybackEngine';
+
+export type VisualizerMode = 'spectrum' | 'oscilloscope';
+
+interface AudioVisualizerProps {
+  engine: PlaybackEngine;
+  mode: VisualizerMode;
+}
+
+const SPECTRUM_BARS = 64;
+const BAR_COLOR = '#9333ea'; // purple-600
+const LINE_COLOR = '#7c3aed'; // violet-600
+
+// Bars over log-spaced frequency ranges, so the bass is not squeezed into the first few
+function drawSpectrum(canvas: CanvasRenderingContext2D, data: Uint8Array, width: number, height: number) {
+  const barWidth = width / SPECTRUM_BARS;
+  canvas.fillStyle = BAR_COLOR;
+  for (let bar = 0; bar < SPECTRUM_BARS; bar++) {
+    const from = Math.floor(Math.pow(data.length, bar / SPECTRUM_BARS));
+    const to = Math.max(from + 1, Math.floor(Math.pow(data.length, (bar + 1) / SPECTRUM_BARS)));
+    let level = 0;
+    for (let bin = from; bin < to && bin < data.length; bin++) {
+      level = Math.max(level, data[bin]);
+    }
+    const barHeight = (level / 255) * height;
+    canvas.fillRect(bar * barWidth, height - barHeight, barWidth - 1, barHeight);
+  }
+}
+
+function drawOscilloscope(canvas: CanvasRenderingContext2D, data: Uint8Array, width: number, height: number) {
+  canvas.strokeStyle = LINE_COLOR;
+  canvas.lineWidth = 2;
+  canvas.beginPath();
+  data.forEach((sample, i) => {
+    const x = (i / (data.length - 1)) * width;
+    const y = (sample / 255) * height;
+    if (i === 0) canvas.moveTo(x, y);
+    else canvas.lineTo(x, y);
+  });
+  canvas.stroke();
+}
+
+// Live view of what is playing, drawn every animation frame from the engine's analyser
+export const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ engine, mode }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const element = canvasRef.current;
+    const canvas = element?.getContext('2d');
+    if (!element || !canvas) return;
+
+    let frame = 0;
+    const draw = () => {
+      frame = requestAnimationFrame(draw);
+      const { width, height } = element;
+      canvas.clearRect(0, 0, width, height);
+      // The analyser only exists once playback has started
+      const analyser = engine.getAnalyser();
+      if (!analyser) return;
+
+      if (mode === 'spectrum') {
+        const data = new Uint8Array(analyser.frequencyBinCount);
+        analyser.getByteFrequencyData(data);
+        drawSpectrum(canvas, data, width, height);
+      } else {
+        const data = new Uint8Array(analyser.fftSize);
+        analyser.getByteTimeDomainData(data);
+        drawOscilloscope(canvas, data, width, height);
+      }
+    };
+    draw();
+    return () => cancelAnimationFrame(frame);
+  }, [engine, mode]);
+
+  return <canvas ref={canvasRef} width={640} height={96} className="w-full h-24 bg-gray-50 rounded-lg" />;
+};
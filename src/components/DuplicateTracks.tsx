@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { toast } from 'sonner';
+import { api } from '../../convex/_generated/api';
+import { Doc, Id } from '../../convex/_generated/dataModel';
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+
+const DuplicateGroup: React.FC<{ tracks: Doc<"tracks">[] }> = ({ tracks }) => {
+  const mergeTracks = useMutation(api.duplicates.mergeTracks);
+  // Keep the oldest track by default; its ID is the one most likely to be referenced
+  const [survivorId, setSurvivorId] = useState<Id<"tracks">>(tracks[0]._id);
+  const [isMerging, setIsMerging] = useState(false);
+
+  const handleMerge = async () => {
+    const duplicateIds = tracks.map((track) => track._id).filter((id) => id !== survivorId);
+    setIsMerging(true);
+    try {
+      const { merged, playlistsUpdated, playsMoved, likesMoved } = await mergeTracks({ survivorId, duplicateIds });
+      toast.success(`Merged ${merged} duplicate${merged === 1 ? '' : 's'}`, {
+        description: `${playlistsUpdated} playlists, ${playsMoved} plays and ${likesMoved} likes updated`,
+      });
+    } catch {
+      toast.error('Could not merge tracks');
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <li className="py-3 space-y-2">
+      {tracks.map((track) => (
+        <label key={track._id} className="flex items-center gap-3 cursor-pointer">
+          <input
+            type="radio"
+            checked={survivorId === track._id}
+            onChange={() => setSurvivorId(track._id)}
+            disabled={isMerging}
+          />
+          <span className="flex-1 text-sm">
+            <span className="font-medium text-gray-800">{track.title}</span>
+            <span className="text-gray-500"> · {track.artist} · {formatDuration(track.duration)}</span>
+            {track.storageId && <span className="text-gray-400"> · uploaded</span>}
+          </span>
+        </label>
+      ))}
+      <div className="flex justify-end">
+        <button
+          onClick={() => void handleMerge()}
+          disabled={isMerging}
+          className="text-sm px-3 py-1 rounded bg-purple-600 text-white hover:bg-purple-700 transition-colors disabled:opacity-50"
+        >
+          {isMerging ? 'Merging...' : 'Keep selected, merge the rest'}
+        </button>
+      </div>
+    </li>
+  );
+};
+
+// Admin tool listing possible duplicate tracks, merged into the one picked to keep
+export const DuplicateTracks: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const groups = useQuery(api.duplicates.possibleDuplicates, isOpen ? {} : 'skip');
+
+  if (!isOpen) {
+    return (
+      <div className="mb-4 flex justify-end">
+        <button
+          onClick={() => setIsOpen(true)}
+          className="text-sm px-3 py-1 rounded bg-gray-100 hover:bg-gray-200 transition-colors"
+        >
+          Find duplicates
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 mb-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-800">Possible duplicates</h3>
+        <button
+          onClick={() => setIsOpen(false)}
+          className="text-sm px-3 py-1 rounded bg-gray-100 hover:bg-gray-200 transition-colors"
+        >
+          Close
+        </button>
+      </div>
+      {groups === undefined ? (
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-purple-600 mx-auto my-4"></div>
+      ) : groups.length === 0 ? (
+        <p className="text-sm text-gray-500 mt-2">No duplicates found.</p>
+      ) : (
+        <ul className="divide-y">
+          {groups.map((group) => (
+            <DuplicateGroup key={group.map((track) => track._id).join()} tracks={group} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { useMutation } from 'convex/react';
+import { toast } from 'sonner';
+import { api } from '../../convex/_generated/api';
+import { Doc } from '../../convex/_generated/dataModel';
+import { BUILT_IN_EQ_PRESETS, EQ_BANDS, EQ_MAX_GAIN_DB, EqSettings } from '../../convex/equalizer';
+
+interface EqualizerPanelProps {
+  settings: EqSettings;
+  // Name of the preset the settings came from, or null once a slider was moved
+  presetName: string | null;
+  customPresets: Doc<"eqPresets">[];
+  genres: string[];
+  autoByGenre: boolean;
+  onChange: (settings: EqSettings, presetName: string | null) => void;
+  onAutoByGenreChange: (enabled: boolean) => void;
+}
+
+const formatFrequency = (hz: number) => (hz >= 1000 ? `${hz / 1000}k` : `${hz}`);
+
+const EqSlider: React.FC<{ label: string; value: number; onChange: (db: number) => void }> = ({
+  label,
+  value,
+  onChange,
+}) => (
+  <label className="flex flex-col items-center gap-1 text-[10px] text-gray-500">
+    <span className="w-8 text-center">{value > 0 ? `+${value}` : value}</span>
+    <input
+      type="range"
+      min={-EQ_MAX_GAIN_DB}
+      max={EQ_MAX_GAIN_DB}
+      step="1"
+      value={value}
+      onChange={(e) => onChange(parseInt(e.target.value, 10))}
+      className="h-24 w-2 cursor-pointer accent-purple-600"
+      style={{ writingMode: 'vertical-lr', direction: 'rtl' }}
+    />
+    <span>{label}</span>
+  </label>
+);
+
+export const EqualizerPanel: React.FC<EqualizerPanelProps> = ({
+  settings,
+  presetName,
+  customPresets,
+  genres,
+  autoByGenre,
+  onChange,
+  onAutoByGenreChange,
+}) => {
+  const saveEqPreset = useMutation(api.eqPresets.saveEqPreset);
+  const deleteEqPreset = useMutation(api.eqPresets.deleteEqPreset);
+  const [saveName, setSaveName] = useState('');
+  const [saveGenre, setSaveGenre] = useState('');
+
+  const selectedCustom = customPresets.find(preset => preset.name === presetName);
+
+  const selectPreset = (name: string) => {
+    const preset = BUILT_IN_EQ_PRESETS.find(p => p.name === name) ?? customPresets.find(p => p.name === name);
+    if (preset) {
+      onChange({ preamp: preset.preamp, gains: preset.gains }, preset.name);
+    }
+  };
+
+  const setBand = (index: number, db: number) => {
+    onChange({ ...settings, gains: settings.gains.map((gain, i) => (i === index ? db : gain)) }, null);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = saveName.trim();
+    saveEqPreset({ name, ...settings, genre: saveGenre || undefined })
+      .then(() => {
+        onChange(settings, name);
+        setSaveName('');
+        setSaveGenre('');
+        toast.success(`Saved preset "${name}"`);
+      })
+      .catch((error: Error) => toast.error(error.message.includes('built-in') ? 'That name is used by a built-in preset' : 'Could not save preset'));
+  };
+
+  const handleDelete = () => {
+    if (!selectedCustom) return;
+    deleteEqPreset({ presetId: selectedCustom._id })
+      .then(() => {
+        onChange(settings, null);
+        toast.success(`Deleted preset "${selectedCustom.name}"`);
+      })
+      .catch(() => toast.error('Could not delete preset'));
+  };
+
+  return (
+    <div className="w-full bg-gray-50 rounded-lg p-3 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-gray-500">Preset:</span>
+        <select
+          value={presetName ?? ''}
+          onChange={(e) => selectPreset(e.target.value)}
+          className="text-xs bg-gray-100 rounded px-2 py-1"
+        >
+          {presetName === null && <option value="">Custom</option>}
+          <optgroup label="Built-in">
+            {BUILT_IN_EQ_PRESETS.map(preset => (
+              <option key={preset.name} value={preset.name}>{preset.name}</option>
+            ))}
+          </optgroup>
+          {customPresets.length > 0 && (
+            <optgroup label="My presets">
+              {customPresets.map(preset => (
+                <option key={preset._id} value={preset.name}>
+                  {preset.name}{preset.genre ? ` (${preset.genre})` : ''}
+                </option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        {selectedCustom && (
+          <button onClick={handleDelete} className="text-xs text-red-600 hover:underline">
+            Delete
+          </button>
+        )}
+        <label className="flex items-center gap-1 text-xs text-gray-600 ml-auto">
+          <input
+            type="checkbox"
+            checked={autoByGenre}
+            onChange={(e) => onAutoByGenreChange(e.target.checked)}
+          />
+          Auto-apply by genre
+        </label>
+      </div>
+
+      <div className="flex items-end gap-1 overflow-x-auto">
+        <EqSlider
+          label="Pre"
+          value={settings.preamp}
+          onChange={(db) => onChange({ ...settings, preamp: db }, null)}
+        />
+        <div className="w-px self-stretch bg-gray-200 mx-1" />
+        {EQ_BANDS.map((frequency, index) => (
+          <EqSlider
+            key={frequency}
+            label={formatFrequency(frequency)}
+            value={settings.gains[index]}
+            onChange={(db) => setBand(index, db)}
+          />
+        ))}
+      </div>
+
+      <form onSubmit={handleSave} className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          placeholder="Save as…"
+          value={saveName}
+          onChange={(e) => setSaveName(e.target.value)}
+          className="text-xs px-2 py-1 border rounded focus:outline-none focus:ring-2 focus:ring-purple-500"
+        />
+        <select
+          value={saveGenre}
+          onChange={(e) => setSaveGenre(e.target.value)}
+          className="text-xs bg-gray-100 rounded px-2 py-1"
+          title="Apply automatically to tracks of this genre"
+        >
+          <option value="">No genre</option>
+          {genres.map(genre => (
+            <option key={genre} value={genre}>{genre}</option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={saveName.trim() === ''}
+          className="text-xs px-2 py-1 rounded bg-purple-600 text-white hover:bg-purple-700 transition-colors disabled:opacity-50"
+        >
+          Save preset
+        </button>
+      </form>
+    </div>
+  );
+};
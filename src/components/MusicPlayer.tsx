@@ -1,5 +1,39 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { MusicLinkedList, TrackNode } from '../lib/LinkedList';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { useQuery, useMutation, usePaginatedQuery } from 'convex/react';
+import { toast } from 'sonner';
+import { api } from '../../convex/_generated/api';
+import { Id } from '../../convex/_generated/dataModel';
+import { MusicLinkedList, RepeatMode, TrackNode } from '../lib/LinkedList';
+import { PlayQueue, QueueNode } from '../lib/PlayQueue';
+import { PlaybackHistory, HistoryNode } from '../lib/PlaybackHistory';
+import { PlaylistEditor } from '../lib/PlaylistEditor';
+import { ShuffleStrategy } from '../../convex/shuffle';
+import { downloadPlaylist, downloadText, PlaylistFormat } from '../lib/playlistFormats';
+import { parseSession, serializeSession } from '../lib/sessionFile';
+import { FadeCurve, MAX_CROSSFADE_SECONDS, PlaybackEngine } from '../lib/PlaybackEngine';
+import { BUILT_IN_EQ_PRESETS, EqSettings, FLAT_EQ } from '../../convex/equalizer';
+import { EqualizerPanel } from './EqualizerPanel';
+import { checkLoudness, combineLoudness, NormalizationMode, TrackLoudness } from '../../convex/loudness';
+import { computeWaveform, decodeAudio, measureLoudness } from '../lib/audioAnalysis';
+import { WaveformSeekBar } from './WaveformSeekBar';
+import { AudioVisualizer, VisualizerMode } from './AudioVisualizer';
+
+// "Previous" restarts the current track once it has played this long
+const RESTART_THRESHOLD_SECONDS = 3;
+
+const FLAT_EQ_NAME = BUILT_IN_EQ_PRESETS[0].name;
+
+// Wait for typing to pause before querying the search index
+const SEARCH_DEBOUNCE_MS = 300;
+const SEARCH_PAGE_SIZE = 10;
+
+// One listening session of a track, reported to Convex as a play event
+interface PlaySession {
+  trackId: string;
+  startedAt: number | null;
+  seconds: number;
+  lastTime: number | null;
+}
 
 interface Track {
   _id: string;
@@ -9,146 +43,338 @@ interface Track {
   audioUrl: string;
   coverUrl?: string;
   genre?: string;
+  loudness?: TrackLoudness;
 }
 
 interface MusicPlayerProps {
   tracks: Track[];
+  playlistId?: Id<"playlists"> | null;
 }
 
-export const MusicPlayer: React.FC<MusicPlayerProps> = ({ tracks }) => {
+export const MusicPlayer: React.FC<MusicPlayerProps> = ({ tracks, playlistId }) => {
   const [playlist] = useState(() => {
     const list = new MusicLinkedList();
-    tracks.forEach(track => list.addTrack(track));
+    list.appendTracks(tracks);
     return list;
   });
+  const [queue] = useState(() => new PlayQueue(playlist));
+  const [history] = useState(() => new PlaybackHistory());
+  const [editor] = useState(() => new PlaylistEditor(playlist));
+  const [engine] = useState(() => new PlaybackEngine());
 
   const [currentTrack, setCurrentTrack] = useState<TrackNode | null>(
     playlist.getCurrentTrack()
   );
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
+  const [mediaDuration, setMediaDuration] = useState<number | null>(null);
+  const [buffered, setBuffered] = useState<[number, number][]>([]);
   const [volume, setVolume] = useState(0.7);
   const [isLoading, setIsLoading] = useState(false);
   const [playbackRate, setPlaybackRate] = useState(1);
+  const [crossfadeSeconds, setCrossfadeSeconds] = useState(0);
+  const [fadeCurve, setFadeCurve] = useState<FadeCurve>('equal-power');
+  const [showEq, setShowEq] = useState(false);
+  const [eqSettings, setEqSettings] = useState<EqSettings>(FLAT_EQ);
+  const [eqPresetName, setEqPresetName] = useState<string | null>(FLAT_EQ_NAME);
+  const [autoEqByGenre, setAutoEqByGenre] = useState(false);
+  const [normalization, setNormalization] = useState<NormalizationMode>('track');
+  const [visualizer, setVisualizer] = useState<VisualizerMode | 'off'>('off');
   const [isShuffled, setIsShuffled] = useState(false);
-  const [isRepeat, setIsRepeat] = useState(false);
+  const [shuffleStrategy, setShuffleStrategy] = useState<ShuffleStrategy>('random');
+  const [shuffleSeed, setShuffleSeed] = useState<number | null>(null);
+  const [repeatMode, setRepeatMode] = useState<RepeatMode>(() => playlist.getRepeatMode());
   const [searchQuery, setSearchQuery] = useState('');
-  const [filteredTracks, setFilteredTracks] = useState<TrackNode[]>([]);
-  
-  const audioRef = useRef<HTMLAudioElement>(null);
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [searchGenre, setSearchGenre] = useState('');
+  const [listTracks, setListTracks] = useState<TrackNode[]>([]);
+  const [queuedEntries, setQueuedEntries] = useState<QueueNode[]>([]);
+  const [recentEntries, setRecentEntries] = useState<HistoryNode[]>([]);
+  const [sidePanel, setSidePanel] = useState<'queue' | 'recent'>('queue');
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
+  const [pendingWrites, setPendingWrites] = useState(0);
+
+
+  const myPlaylists = useQuery(api.playlists.listMyPlaylists) ?? [];
+  const addTrackToPlaylist = useMutation(api.playlists.addTrackToPlaylist);
+  const setPlaylistTracks = useMutation(api.playlists.setPlaylistTracks);
+  const recordPlay = useMutation(api.plays.recordPlay);
+  const likedTrackIds = useQuery(api.likes.listLikedTrackIds);
+  const toggleLike = useMutation(api.likes.toggleLike);
+  const setTrackLoudness = useMutation(api.tracks.setTrackLoudness);
+  const saveWaveform = useMutation(api.waveforms.saveWaveform);
+  const role = useQuery(api.roles.myRole);
+  const canStoreAnalysis = role === 'curator' || role === 'admin';
+  const likedIds = new Set<string>(likedTrackIds ?? []);
+  const myEqPresets = useQuery(api.eqPresets.listMyEqPresets);
+  const customEqPresets = useMemo(() => myEqPresets ?? [], [myEqPresets]);
+  const playSessionRef = useRef<PlaySession | null>(null);
+  // Tracks this player already tried to analyse, so failures are not retried on every play
+  const analysedTrackIdsRef = useRef(new Set<string>());
+
+  const isSearching = debouncedQuery.trim() !== '';
+  const { results: searchResults, status: searchStatus, loadMore } = usePaginatedQuery(
+    api.tracks.searchTracks,
+    isSearching
+      ? { searchTerm: debouncedQuery.trim(), genre: searchGenre === '' ? undefined : searchGenre }
+      : "skip",
+    { initialNumItems: SEARCH_PAGE_SIZE }
+  );
+  const searchTracks = useMemo(
+    () => searchResults.map(track => new TrackNode(track)),
+    [searchResults]
+  );
+  const genres = useMemo(
+    () => [...new Set(tracks.map(track => track.genre).filter((genre): genre is string => !!genre))].sort(),
+    [tracks]
+  );
 
-  // Update playlist when tracks change
+  // Apply new pages and live inserts, updates and deletes as a diff so the
+  // current track (and its playback position) survives library changes.
+  // This player's own edits come back unchanged once written, so their history is kept;
+  // any other change would make recorded edits bring back a different set of tracks,
+  // so those are dropped. Updates wait until our writes have landed, since an older
+  // copy of the playlist would otherwise undo a newer local edit.
   useEffect(() => {
-    playlist.clear();
-    tracks.forEach(track => playlist.addTrack(track));
-    setCurrentTrack(playlist.getCurrentTrack());
-    setFilteredTracks(playlist.getAllTracks());
-  }, [tracks, playlist]);
+    if (pendingWrites > 0) return;
+    if (playlist.syncTracks(tracks)) {
+      editor.clearHistory();
+    }
+    const current = queue.getCurrentTrack();
+    setCurrentTrack(prev => (prev && current && prev.id === current.id ? prev : current));
+    setListTracks(playlist.getAllTracks());
+  }, [tracks, pendingWrites, playlist, queue, editor]);
 
-  // Filter tracks based on search query
+  // Debounce the search box
   useEffect(() => {
-    if (searchQuery.trim() === '') {
-      setFilteredTracks(playlist.getAllTracks());
-    } else {
-      setFilteredTracks(playlist.searchTracks(searchQuery));
+    const timeout = setTimeout(() => setDebouncedQuery(searchQuery), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  // Start the new track when it changes (a no-op when the engine already advanced to it)
+  useEffect(() => {
+    if (currentTrack) {
+      engine.load(currentTrack, isPlaying);
     }
-  }, [searchQuery, playlist]);
+  }, [engine, currentTrack, isPlaying]);
 
-  // Audio event handlers
   useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio) return;
-
-    const updateTime = () => setCurrentTime(audio.currentTime);
-    const handleLoadStart = () => setIsLoading(true);
-    const handleCanPlay = () => setIsLoading(false);
-    const handleEnded = () => {
-      if (isRepeat) {
-        audio.currentTime = 0;
-        audio.play().catch(console.error);
-      } else {
-        nextTrack();
-      }
-    };
-    const handleError = () => {
-      setIsLoading(false);
-      console.error('Audio loading error');
-    };
+    engine.setVolume(volume);
+  }, [engine, volume]);
 
-    audio.addEventListener('timeupdate', updateTime);
-    audio.addEventListener('loadstart', handleLoadStart);
-    audio.addEventListener('canplay', handleCanPlay);
-    audio.addEventListener('ended', handleEnded);
-    audio.addEventListener('error', handleError);
-
-    return () => {
-      audio.removeEventListener('timeupdate', updateTime);
-      audio.removeEventListener('loadstart', handleLoadStart);
-      audio.removeEventListener('canplay', handleCanPlay);
-      audio.removeEventListener('ended', handleEnded);
-      audio.removeEventListener('error', handleError);
-    };
-  }, [isRepeat]);
+  useEffect(() => {
+    engine.setPlaybackRate(playbackRate);
+  }, [engine, playbackRate]);
 
-  // Update audio source when track changes
   useEffect(() => {
-    if (audioRef.current && currentTrack) {
-      audioRef.current.src = currentTrack.audioUrl;
-      audioRef.current.volume = volume;
-      audioRef.current.playbackRate = playbackRate;
-      setCurrentTime(0);
+    engine.setCrossfade(crossfadeSeconds, fadeCurve);
+  }, [engine, crossfadeSeconds, fadeCurve]);
+
+  useEffect(() => {
+    engine.setEqualizer(eqSettings);
+  }, [engine, eqSettings]);
+
+  // A custom preset assigned to the track's genre wins over the built-in one named after it
+  const currentGenre = currentTrack?.genre?.toLowerCase();
+  useEffect(() => {
+    if (!autoEqByGenre || !currentGenre) return;
+    const preset =
+      customEqPresets.find(p => p.genre?.toLowerCase() === currentGenre) ??
+      BUILT_IN_EQ_PRESETS.find(p => p.name.toLowerCase() === currentGenre);
+    if (preset) {
+      setEqSettings({ preamp: preset.preamp, gains: preset.gains });
+      setEqPresetName(preset.name);
     }
-  }, [currentTrack, volume, playbackRate]);
+  }, [autoEqByGenre, currentGenre, customEqPresets]);
+
+  // Playlist mode treats the active list (library or saved playlist) as one album
+  const playlistLoudness = useMemo(() => combineLoudness(tracks.map(track => track.loudness)), [tracks]);
+  useEffect(() => {
+    engine.setNormalization(normalization, playlistLoudness);
+  }, [engine, normalization, playlistLoudness]);
+
+  const waveform = useQuery(
+    api.waveforms.getWaveform,
+    currentTrack ? { trackId: currentTrack.id as Id<"tracks"> } : "skip"
+  );
+
+  // Waveform measured by this player for a track that has none stored
+  const [localWaveform, setLocalWaveform] = useState<{ trackId: string; peaks: number[] } | null>(null);
+
+  // Decode a track the first time it plays to measure whatever is missing. Curators'
+  // players store the results for everyone; other players only use them locally.
+  useEffect(() => {
+    if (!currentTrack || waveform === undefined || role === undefined) return;
+    const needsLoudness = !currentTrack.loudness;
+    const needsWaveform = waveform === null;
+    const trackId = currentTrack.id as Id<"tracks">;
+    if ((!needsLoudness && !needsWaveform) || analysedTrackIdsRef.current.has(trackId)) return;
+    analysedTrackIdsRef.current.add(trackId);
+    decodeAudio(currentTrack.audioUrl)
+      .then(async audio => {
+        if (needsWaveform) {
+          const peaks = computeWaveform(audio);
+          setLocalWaveform({ trackId, peaks });
+          if (canStoreAnalysis) await saveWaveform({ trackId, peaks });
+        }
+        if (needsLoudness) {
+          const loudness = await measureLoudness(audio);
+          engine.setLocalLoudness(trackId, loudness);
+          if (canStoreAnalysis && !checkLoudness(loudness)) await setTrackLoudness({ trackId, loudness });
+        }
+      })
+      .catch(console.error);
+  }, [currentTrack, waveform, role, canStoreAnalysis, engine, setTrackLoudness, saveWaveform]);
+
+  useEffect(() => () => engine.stop(), [engine]);
+
+  // Preload whatever plays after the current track: itself on repeat-one, else the queue or current.next
+  const preloadUpcoming = useCallback(() => {
+    engine.setNext(playlist.getRepeatMode() === 'one' ? queue.getCurrentTrack() : queue.peekNext());
+  }, [engine, playlist, queue]);
+
+  useEffect(() => {
+    preloadUpcoming();
+  }, [preloadUpcoming, currentTrack, listTracks, queuedEntries, repeatMode]);
+
+  // Report the current listening session, if anything was actually heard
+  const flushPlay = useCallback((completed: boolean) => {
+    const session = playSessionRef.current;
+    playSessionRef.current = null;
+    if (!session || session.startedAt === null || session.seconds < 1) return;
+    recordPlay({
+      trackId: session.trackId as Id<"tracks">,
+      startedAt: session.startedAt,
+      secondsListened: Math.round(session.seconds),
+      completed,
+    }).catch(console.error);
+  }, [recordPlay]);
+
+  const startPlaySession = useCallback((trackId: string) => {
+    playSessionRef.current = { trackId, startedAt: null, seconds: 0, lastTime: null };
+  }, []);
+
+  // Each new track starts a session; leaving it before it ends counts as a skip
+  const currentTrackId = currentTrack?.id;
+  useEffect(() => {
+    if (!currentTrackId) return;
+    startPlaySession(currentTrackId);
+    return () => flushPlay(false);
+  }, [currentTrackId, startPlaySession, flushPlay]);
 
   const togglePlay = useCallback(() => {
-    if (!audioRef.current || !currentTrack) return;
+    if (!currentTrack) return;
 
     if (isPlaying) {
-      audioRef.current.pause();
+      engine.pause();
     } else {
-      audioRef.current.play().catch(console.error);
+      engine.play();
     }
     setIsPlaying(!isPlaying);
-  }, [isPlaying, currentTrack]);
+  }, [engine, isPlaying, currentTrack]);
+
+  // Remember the track the user is leaving so "previous" can return to it
+  const recordHistory = useCallback((previous: TrackNode | null) => {
+    if (!previous) return;
+    history.push(previous);
+    setRecentEntries(history.getRecent());
+  }, [history]);
 
   const nextTrack = useCallback(() => {
-    const next = playlist.nextTrack();
+    const previous = queue.getCurrentTrack();
+    const next = queue.nextTrack();
+    setQueuedEntries(queue.getQueue());
     if (next) {
+      recordHistory(previous);
       setCurrentTrack(next);
       setCurrentTime(0);
-      if (isPlaying && audioRef.current) {
-        setTimeout(() => {
-          audioRef.current?.play().catch(console.error);
-        }, 100);
-      }
     }
-  }, [playlist, isPlaying]);
+  }, [queue, recordHistory]);
 
+  // Restart the current track if it is past the threshold, otherwise go back in history
   const prevTrack = useCallback(() => {
-    const prev = playlist.prevTrack();
+    if (engine.getCurrentTime() > RESTART_THRESHOLD_SECONDS) {
+      engine.seek(0);
+      setCurrentTime(0);
+      return;
+    }
+
+    const heard = history.pop();
+    setRecentEntries(history.getRecent());
+    const prev = heard ? queue.jumpTo(heard) : queue.prevTrack();
     if (prev) {
       setCurrentTrack(prev);
       setCurrentTime(0);
-      if (isPlaying && audioRef.current) {
-        setTimeout(() => {
-          audioRef.current?.play().catch(console.error);
-        }, 100);
-      }
     }
-  }, [playlist, isPlaying]);
+  }, [engine, queue, history]);
 
-  const selectTrack = useCallback((trackId: string) => {
-    const track = playlist.setCurrentTrack(trackId);
+  // A clicked row plays that exact entry; search results may lie outside the current
+  // list, and those are played directly
+  const selectTrack = useCallback((trackId: string, row?: TrackNode) => {
+    const previous = queue.getCurrentTrack();
+    const track = row ? queue.jumpTo(row) : queue.selectTrack(trackId);
     if (track) {
+      if (track.id !== previous?.id) {
+        recordHistory(previous);
+      }
       setCurrentTrack(track);
       setCurrentTime(0);
-      if (isPlaying && audioRef.current) {
-        setTimeout(() => {
-          audioRef.current?.play().catch(console.error);
-        }, 100);
-      }
     }
-  }, [playlist, isPlaying]);
+  }, [queue, recordHistory]);
+
+  // Playback engine events
+  useEffect(() => {
+    engine.setEvents({
+      onTimeUpdate: (time, counted) => {
+        setCurrentTime(time);
+
+        // Accumulate listened time, ignoring jumps caused by seeking
+        const session = playSessionRef.current;
+        if (!session || !counted) return;
+        if (session.lastTime !== null) {
+          const delta = time - session.lastTime;
+          if (delta > 0 && delta < 2) {
+            session.seconds += delta;
+            session.startedAt ??= Date.now() - delta * 1000;
+          }
+        }
+        session.lastTime = time;
+      },
+      onLoadingChange: setIsLoading,
+      onDurationChange: setMediaDuration,
+      onBufferedChange: setBuffered,
+      // The engine already started the preloaded track; move the queue to match
+      onAdvance: (track) => {
+        flushPlay(true);
+        if (repeatMode === 'one') {
+          startPlaySession(track.id);
+          preloadUpcoming();
+        } else {
+          nextTrack();
+        }
+      },
+      onEnded: () => {
+        const finishedTrackId = playSessionRef.current?.trackId;
+        flushPlay(true);
+        if (repeatMode === 'one') {
+          if (finishedTrackId) {
+            startPlaySession(finishedTrackId);
+          }
+          engine.restart();
+        } else if (queue.hasNext()) {
+          nextTrack();
+        } else {
+          // Repeat is off and the tail has finished
+          setIsPlaying(false);
+        }
+      },
+      onError: () => {
+        setIsLoading(false);
+        console.error('Audio loading error');
+      },
+    });
+  }, [engine, repeatMode, queue, nextTrack, flushPlay, startPlaySession, preloadUpcoming]);
 
   const formatTime = useCallback((seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -156,47 +382,202 @@ export const MusicPlayer: React.FC<MusicPlayerProps> = ({ tracks }) => {
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   }, []);
 
-  const handleSeek = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const audio = audioRef.current;
-    if (!audio || !currentTrack) return;
-
-    const newTime = (parseFloat(e.target.value) / 100) * currentTrack.duration;
-    audio.currentTime = newTime;
+  const handleSeek = useCallback((newTime: number) => {
+    engine.seek(newTime);
     setCurrentTime(newTime);
-  }, [currentTrack]);
+  }, [engine]);
 
   const handleVolumeChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const newVolume = parseFloat(e.target.value) / 100;
-    setVolume(newVolume);
-    if (audioRef.current) {
-      audioRef.current.volume = newVolume;
-    }
+    setVolume(parseFloat(e.target.value) / 100);
   }, []);
 
-  const handlePlaybackRateChange = useCallback((rate: number) => {
-    setPlaybackRate(rate);
-    if (audioRef.current) {
-      audioRef.current.playbackRate = rate;
-    }
-  }, []);
+  // Re-read the list after an edit
+  const refreshList = useCallback(() => {
+    setListTracks(playlist.getAllTracks());
+    setIsShuffled(playlist.getIsShuffled());
+    setShuffleSeed(playlist.getShuffleSeed());
+    // Only switch tracks if the edit changed which one is current
+    const current = queue.getCurrentTrack();
+    setCurrentTrack(prev => (prev && current && prev.id === current.id ? prev : current));
+  }, [playlist, queue]);
+
+  // Write the edited list back to the playlist in Convex; a shuffled order is never
+  // persisted, only the order underneath it
+  const persistTracks = useCallback(() => {
+    if (!playlistId) return;
+    setPendingWrites(count => count + 1);
+    setPlaylistTracks({
+      playlistId,
+      trackIds: playlist.getOriginalOrder().map(track => track.id as Id<"tracks">),
+    })
+      .catch(() => toast.error('Could not save the playlist'))
+      .finally(() => setPendingWrites(count => count - 1));
+  }, [playlist, playlistId, setPlaylistTracks]);
 
   const toggleShuffle = useCallback(() => {
     if (isShuffled) {
-      playlist.restoreOrder();
+      editor.restoreOrder();
     } else {
-      playlist.shuffle();
+      editor.shuffle({ strategy: shuffleStrategy });
     }
-    setIsShuffled(!isShuffled);
-  }, [playlist, isShuffled]);
+    refreshList();
+  }, [editor, isShuffled, shuffleStrategy, refreshList]);
 
+  // Reproduce a shared shuffle from its seed
+  const replaySeed = useCallback(() => {
+    const input = window.prompt('Shuffle seed', shuffleSeed?.toString() ?? '');
+    if (!input) return;
+    const seed = Number(input.trim());
+    if (!Number.isInteger(seed) || seed < 0) {
+      toast.error('Seed must be a non-negative whole number');
+      return;
+    }
+    if (playlist.getIsShuffled()) {
+      editor.restoreOrder();
+    }
+    editor.shuffle({ strategy: shuffleStrategy === 'random' ? 'seeded' : shuffleStrategy, seed });
+    refreshList();
+  }, [editor, playlist, shuffleSeed, shuffleStrategy, refreshList]);
+
+  const copySeed = useCallback(() => {
+    if (shuffleSeed === null) return;
+    navigator.clipboard.writeText(shuffleSeed.toString())
+      .then(() => toast.success('Shuffle seed copied'))
+      .catch(() => toast.error('Could not copy seed'));
+  }, [shuffleSeed]);
+
+  // Export the list in its current order as an M3U8 or PLS file
+  const playlistName = myPlaylists.find(p => p._id === playlistId)?.name ?? 'MusicLink library';
+  const exportList = useCallback((format: PlaylistFormat | 'session') => {
+    if (format === 'session') {
+      downloadText(`${playlistName}.musiclink.json`, serializeSession(playlist), 'application/json');
+      return;
+    }
+    downloadPlaylist(playlistName, format, playlist.getAllTracks());
+  }, [playlistName, playlist]);
+
+  // Reopen a saved session in the same order and position (undoable like any whole-list edit)
+  const openSession = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    file.text()
+      .then((text) => {
+        const session = parseSession(text);
+        editor.restoreSnapshot(session.snapshot);
+        playlist.setRepeatMode(session.repeatMode);
+        setRepeatMode(session.repeatMode);
+        refreshList();
+        toast.success('Session restored');
+      })
+      .catch((error: Error) => toast.error(error.message));
+  }, [editor, playlist, refreshList]);
+
+  const undoEdit = useCallback(() => {
+    const label = editor.undo();
+    if (!label) return;
+    refreshList();
+    persistTracks();
+    toast(`Undo: ${label}`);
+  }, [editor, refreshList, persistTracks]);
+
+  const redoEdit = useCallback(() => {
+    const label = editor.redo();
+    if (!label) return;
+    refreshList();
+    persistTracks();
+    toast(`Redo: ${label}`);
+  }, [editor, refreshList, persistTracks]);
+
+  // Adding to the open playlist is an undoable edit; other playlists are updated directly
+  const handleAddToPlaylist = useCallback((track: TrackNode, targetId: Id<"playlists">) => {
+    if (targetId === playlistId) {
+      editor.addTrack(track.toTrackData());
+      refreshList();
+      persistTracks();
+      toast.success('Added to playlist');
+      return;
+    }
+    addTrackToPlaylist({ playlistId: targetId, trackId: track.id as Id<"tracks"> })
+      .then(() => toast.success('Added to playlist'))
+      .catch(() => toast.error('Could not add track to playlist'));
+  }, [playlistId, editor, refreshList, persistTracks, addTrackToPlaylist]);
+
+  // Remove one row (by position, since a track can be listed twice) as an undoable edit
+  const handleRemoveFromPlaylist = useCallback((index: number) => {
+    if (!playlistId || !editor.removeTrackAt(index)) return;
+    refreshList();
+    persistTracks();
+  }, [playlistId, editor, refreshList, persistTracks]);
+
+  const handlePlayNext = useCallback((track: TrackNode) => {
+    queue.playNext(track);
+    setQueuedEntries(queue.getQueue());
+  }, [queue]);
+
+  const handleEnqueue = useCallback((track: TrackNode) => {
+    queue.enqueue(track);
+    setQueuedEntries(queue.getQueue());
+  }, [queue]);
+
+  const handleRemoveFromQueue = useCallback((entryId: number) => {
+    queue.removeFromQueue(entryId);
+    setQueuedEntries(queue.getQueue());
+  }, [queue]);
+
+  const handleClearQueue = useCallback(() => {
+    queue.clearQueue();
+    setQueuedEntries([]);
+  }, [queue]);
+
+  // Drag-and-drop reordering (disabled while searching, since indices are filtered)
+  const handleDrop = useCallback((toIndex: number) => {
+    if (draggedIndex === null) return;
+    if (editor.moveTrackAt(draggedIndex, toIndex)) {
+      refreshList();
+      persistTracks();
+    }
+    setDraggedIndex(null);
+    setDragOverIndex(null);
+  }, [draggedIndex, editor, refreshList, persistTracks]);
+
+  const handleToggleLike = useCallback((trackId: string) => {
+    toggleLike({ trackId: trackId as Id<"tracks"> })
+      .catch(() => toast.error('Could not update liked songs'));
+  }, [toggleLike]);
+
+  // Cycle off -> all -> one
   const toggleRepeat = useCallback(() => {
-    setIsRepeat(!isRepeat);
-  }, [isRepeat]);
+    const modes: RepeatMode[] = ['off', 'all', 'one'];
+    const nextMode = modes[(modes.indexOf(repeatMode) + 1) % modes.length];
+    playlist.setRepeatMode(nextMode);
+    setRepeatMode(nextMode);
+  }, [playlist, repeatMode]);
 
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyPress = (e: KeyboardEvent) => {
-      if (e.target instanceof HTMLInputElement) return;
+      if (e.defaultPrevented) return;
+      // Form controls and editable text use these keys themselves
+      if (
+        e.target instanceof HTMLInputElement ||
+        e.target instanceof HTMLSelectElement ||
+        e.target instanceof HTMLTextAreaElement ||
+        (e.target instanceof HTMLElement && e.target.isContentEditable)
+      ) {
+        return;
+      }
+
+      // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) for playlist edits
+      if ((e.ctrlKey || e.metaKey) && e.code === 'KeyZ') {
+        e.preventDefault();
+        if (e.shiftKey) {
+          redoEdit();
+        } else {
+          undoEdit();
+        }
+        return;
+      }
       
       switch (e.code) {
         case 'Space':
@@ -224,7 +605,7 @@ export const MusicPlayer: React.FC<MusicPlayerProps> = ({ tracks }) => {
 
     window.addEventListener('keydown', handleKeyPress);
     return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [togglePlay, nextTrack, prevTrack]);
+  }, [togglePlay, nextTrack, prevTrack, undoEdit, redoEdit]);
 
   if (!currentTrack) {
     return (
@@ -234,10 +615,14 @@ export const MusicPlayer: React.FC<MusicPlayerProps> = ({ tracks }) => {
     );
   }
 
+  // List rows are matched by node, so only the copy that is playing is highlighted when
+  // a track is listed twice; search results and queued tracks are separate nodes
+  const currentListNode = queue.isPlayingFromQueue() ? null : playlist.getCurrentTrack();
+  const isCurrentRow = (track: TrackNode) =>
+    !isSearching && currentListNode ? track === currentListNode : track.id === currentTrack.id;
+
   return (
     <div className="bg-white rounded-lg shadow-lg overflow-hidden">
-      <audio ref={audioRef} preload="metadata" />
-      
       {/* Current Track Display */}
       <div className="bg-gradient-to-r from-purple-600 to-blue-600 text-white p-6">
         <div className="flex items-center space-x-4">
@@ -262,7 +647,24 @@ export const MusicPlayer: React.FC<MusicPlayerProps> = ({ tracks }) => {
             )}
           </div>
           <div className="flex-1">
-            <h3 className="text-xl font-bold">{currentTrack.title}</h3>
+            <div className="flex items-center space-x-2">
+              <h3 className="text-xl font-bold">{currentTrack.title}</h3>
+              <button
+                onClick={() => handleToggleLike(currentTrack.id)}
+                className="p-1 rounded-full hover:bg-white/20 transition-colors"
+                title={likedIds.has(currentTrack.id) ? 'Remove from Liked Songs' : 'Add to Liked Songs'}
+              >
+                <svg
+                  className="w-5 h-5"
+                  fill={likedIds.has(currentTrack.id) ? 'currentColor' : 'none'}
+                  stroke="currentColor"
+                  strokeWidth={1.5}
+                  viewBox="0 0 20 20"
+                >
+                  <path d="M3.172 5.172a4 4 0 015.656 0L10 6.343l1.172-1.171a4 4 0 115.656 5.656L10 17.657l-6.828-6.829a4 4 0 010-5.656z" />
+                </svg>
+              </button>
+            </div>
             <p className="text-white/80">{currentTrack.artist}</p>
             <div className="flex items-center space-x-4 text-white/60 text-sm mt-1">
               <span>{currentTrack.genre}</span>
@@ -273,20 +675,21 @@ export const MusicPlayer: React.FC<MusicPlayerProps> = ({ tracks }) => {
         </div>
       </div>
 
-      {/* Progress Bar */}
-      <div className="px-6 py-4">
+      {/* Waveform seek bar; the stored duration is only a fallback until the audio reports its own */}
+      <div className="px-6 py-4 space-y-3">
         <div className="flex items-center space-x-2 text-sm text-gray-500">
           <span>{formatTime(currentTime)}</span>
-          <input
-            type="range"
-            min="0"
-            max="100"
-            value={currentTrack.duration > 0 ? (currentTime / currentTrack.duration) * 100 : 0}
-            onChange={handleSeek}
-            className="flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+          <WaveformSeekBar
+            peaks={waveform ?? (localWaveform?.trackId === currentTrack.id ? localWaveform.peaks : null)}
+            currentTime={currentTime}
+            duration={mediaDuration ?? currentTrack.duration}
+            buffered={buffered}
+            onSeek={handleSeek}
+            formatTime={formatTime}
           />
-          <span>{formatTime(currentTrack.duration)}</span>
+          <span>{formatTime(mediaDuration ?? currentTrack.duration)}</span>
         </div>
+        {visualizer !== 'off' && <AudioVisualizer engine={engine} mode={visualizer} />}
       </div>
 
       {/* Main Controls */}
@@ -308,7 +711,8 @@ export const MusicPlayer: React.FC<MusicPlayerProps> = ({ tracks }) => {
 
           <button
             onClick={prevTrack}
-            className="p-2 rounded-full bg-gray-100 hover:bg-gray-200 transition-colors"
+            disabled={history.isEmpty() && !queue.hasPrevious() && currentTime <= RESTART_THRESHOLD_SECONDS}
+            className="p-2 rounded-full bg-gray-100 hover:bg-gray-200 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
             title="Previous Track"
           >
             <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 20 20">
@@ -336,7 +740,8 @@ export const MusicPlayer: React.FC<MusicPlayerProps> = ({ tracks }) => {
           
           <button
             onClick={nextTrack}
-            className="p-2 rounded-full bg-gray-100 hover:bg-gray-200 transition-colors"
+            disabled={!queue.hasNext()}
+            className="p-2 rounded-full bg-gray-100 hover:bg-gray-200 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
             title="Next Track"
           >
             <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 20 20">
@@ -346,13 +751,18 @@ export const MusicPlayer: React.FC<MusicPlayerProps> = ({ tracks }) => {
 
           <button
             onClick={toggleRepeat}
-            className={`p-2 rounded-full transition-colors ${
-              isRepeat 
+            className={`relative p-2 rounded-full transition-colors ${
+              repeatMode !== 'off'
                 ? 'bg-purple-600 text-white' 
                 : 'bg-gray-100 hover:bg-gray-200'
             }`}
-            title="Repeat"
+            title={`Repeat: ${repeatMode}`}
           >
+            {repeatMode === 'one' && (
+              <span className="absolute -top-1 -right-1 w-4 h-4 rounded-full bg-white text-purple-600 text-[10px] font-bold flex items-center justify-center shadow">
+                1
+              </span>
+            )}
             <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
               <path fillRule="evenodd" d="M4 2a1 1 0 011 1v2.101a7.002 7.002 0 0111.601 2.566 1 1 0 11-1.885.666A5.002 5.002 0 005.999 7H9a1 1 0 010 2H4a1 1 0 01-1-1V3a1 1 0 011-1zm.008 9.057a1 1 0 011.276.61A5.002 5.002 0 0014.001 13H11a1 1 0 110-2h5a1 1 0 011 1v5a1 1 0 11-2 0v-2.101a7.002 7.002 0 01-11.601-2.566 1 1 0 01.61-1.276z" clipRule="evenodd" />
             </svg>
@@ -360,7 +770,7 @@ export const MusicPlayer: React.FC<MusicPlayerProps> = ({ tracks }) => {
         </div>
 
         {/* Secondary Controls */}
-        <div className="flex items-center justify-between mt-4">
+        <div className="flex flex-wrap items-center justify-between gap-y-2 mt-4">
           {/* Volume Control */}
           <div className="flex items-center space-x-2">
             <svg className="w-4 h-4 text-gray-400" fill="currentColor" viewBox="0 0 20 20">
@@ -377,12 +787,41 @@ export const MusicPlayer: React.FC<MusicPlayerProps> = ({ tracks }) => {
             <span className="text-xs text-gray-500 w-8">{Math.round(volume * 100)}%</span>
           </div>
 
+          {/* Shuffle Strategy */}
+          <div className="flex items-center space-x-2">
+            <span className="text-xs text-gray-500">Shuffle:</span>
+            <select
+              value={shuffleStrategy}
+              onChange={(e) => setShuffleStrategy(e.target.value as ShuffleStrategy)}
+              className="text-xs bg-gray-100 rounded px-2 py-1"
+            >
+              <option value="random">Random</option>
+              <option value="seeded">Seeded</option>
+              <option value="spread">Spread artists</option>
+            </select>
+            {shuffleSeed !== null && (
+              <button
+                onClick={copySeed}
+                className="text-xs text-purple-600 hover:underline font-mono"
+                title="Copy seed"
+              >
+                #{shuffleSeed}
+              </button>
+            )}
+            <button
+              onClick={replaySeed}
+              className="text-xs text-gray-500 hover:text-gray-700 hover:underline"
+            >
+              Use seed…
+            </button>
+          </div>
+
           {/* Playback Speed */}
           <div className="flex items-center space-x-2">
             <span className="text-xs text-gray-500">Speed:</span>
             <select
               value={playbackRate}
-              onChange={(e) => handlePlaybackRateChange(parseFloat(e.target.value))}
+              onChange={(e) => setPlaybackRate(parseFloat(e.target.value))}
               className="text-xs bg-gray-100 rounded px-2 py-1"
             >
               <option value={0.5}>0.5x</option>
@@ -393,33 +832,161 @@ export const MusicPlayer: React.FC<MusicPlayerProps> = ({ tracks }) => {
               <option value={2}>2x</option>
             </select>
           </div>
+
+          {/* Crossfade (0 = gapless) */}
+          <div className="flex items-center space-x-2">
+            <span className="text-xs text-gray-500">Crossfade:</span>
+            <input
+              type="range"
+              min="0"
+              max={MAX_CROSSFADE_SECONDS}
+              step="1"
+              value={crossfadeSeconds}
+              onChange={(e) => setCrossfadeSeconds(parseInt(e.target.value, 10))}
+              className="w-20 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+            />
+            <span className="text-xs text-gray-500 w-12">
+              {crossfadeSeconds === 0 ? 'Gapless' : `${crossfadeSeconds}s`}
+            </span>
+            <select
+              value={fadeCurve}
+              onChange={(e) => setFadeCurve(e.target.value as FadeCurve)}
+              disabled={crossfadeSeconds === 0}
+              className="text-xs bg-gray-100 rounded px-2 py-1 disabled:opacity-50"
+              title="Fade curve"
+            >
+              <option value="equal-power">Equal power</option>
+              <option value="linear">Linear</option>
+              <option value="s-curve">S-curve</option>
+            </select>
+          </div>
+
+          {/* Loudness normalization */}
+          <div className="flex items-center space-x-2">
+            <span className="text-xs text-gray-500">Normalize:</span>
+            <select
+              value={normalization}
+              onChange={(e) => setNormalization(e.target.value as NormalizationMode)}
+              className="text-xs bg-gray-100 rounded px-2 py-1"
+              title="Even out loudness differences between tracks"
+            >
+              <option value="off">Off</option>
+              <option value="track">Per track</option>
+              <option value="playlist">Per playlist</option>
+            </select>
+          </div>
+
+          {/* Visualizer */}
+          <div className="flex items-center space-x-2">
+            <span className="text-xs text-gray-500">Visualizer:</span>
+            <select
+              value={visualizer}
+              onChange={(e) => setVisualizer(e.target.value as VisualizerMode | 'off')}
+              className="text-xs bg-gray-100 rounded px-2 py-1"
+            >
+              <option value="off">Off</option>
+              <option value="spectrum">Spectrum</option>
+              <option value="oscilloscope">Oscilloscope</option>
+            </select>
+          </div>
+
+          <button
+            onClick={() => setShowEq(!showEq)}
+            className={`text-xs px-2 py-1 rounded transition-colors ${
+              showEq ? 'bg-purple-600 text-white' : 'bg-gray-100 hover:bg-gray-200'
+            }`}
+            title="Equalizer"
+          >
+            EQ{eqPresetName ? `: ${eqPresetName}` : ''}
+          </button>
+
+          {showEq && (
+            <EqualizerPanel
+              settings={eqSettings}
+              presetName={eqPresetName}
+              customPresets={customEqPresets}
+              genres={genres}
+              autoByGenre={autoEqByGenre}
+              onChange={(settings, presetName) => {
+                setEqSettings(settings);
+                setEqPresetName(presetName);
+              }}
+              onAutoByGenreChange={setAutoEqByGenre}
+            />
+          )}
         </div>
       </div>
 
       {/* Playlist */}
-      <div className="border-t bg-gray-50">
-        <div className="px-6 py-3">
+      <div className="border-t bg-gray-50 md:flex">
+        <div className="px-6 py-3 md:flex-1 min-w-0">
           <div className="flex items-center justify-between mb-3">
             <h4 className="font-semibold text-gray-700">
               Playlist ({playlist.getSize()} tracks • {playlist.getFormattedTotalDuration()})
             </h4>
-            <input
-              type="text"
-              placeholder="Search tracks..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="px-3 py-1 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
-            />
+            <div className="flex items-center gap-2">
+              <select
+                value=""
+                onChange={(e) => exportList(e.target.value as PlaylistFormat | 'session')}
+                className="text-sm bg-gray-100 rounded px-2 py-1"
+                title="Export playlist"
+              >
+                <option value="">Export…</option>
+                <option value="m3u">M3U8</option>
+                <option value="pls">PLS</option>
+                <option value="xspf">XSPF</option>
+                <option value="session">Session (JSON)</option>
+              </select>
+              <label className="text-sm bg-gray-100 rounded px-2 py-1 cursor-pointer hover:bg-gray-200" title="Open a saved session">
+                Open…
+                <input type="file" accept=".json,application/json" onChange={openSession} className="hidden" />
+              </label>
+              <select
+                value={searchGenre}
+                onChange={(e) => setSearchGenre(e.target.value)}
+                className="text-sm bg-gray-100 rounded px-2 py-1"
+                title="Filter search by genre"
+              >
+                <option value="">All genres</option>
+                {genres.map(genre => (
+                  <option key={genre} value={genre}>{genre}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                placeholder="Search library..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="px-3 py-1 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+            </div>
           </div>
           <div className="space-y-2 max-h-64 overflow-y-auto">
-            {filteredTracks.map((track, index) => (
+            {(isSearching ? searchTracks : listTracks).map((track, index) => (
               <div
-                key={track.id}
-                onClick={() => selectTrack(track.id)}
+                key={`${index}:${track.id}`}
+                onClick={() => selectTrack(track.id, track)}
+                draggable={!isSearching}
+                onDragStart={() => setDraggedIndex(index)}
+                onDragOver={(e) => {
+                  if (draggedIndex === null) return;
+                  e.preventDefault();
+                  setDragOverIndex(index);
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop(index);
+                }}
+                onDragEnd={() => {
+                  setDraggedIndex(null);
+                  setDragOverIndex(null);
+                }}
                 className={`flex items-center space-x-3 p-2 rounded cursor-pointer transition-colors ${
-                  track.id === currentTrack.id
+                  isCurrentRow(track)
                     ? 'bg-purple-100 text-purple-700'
                     : 'hover:bg-gray-100'
+                } ${index === draggedIndex ? 'opacity-50' : ''} ${
+                  dragOverIndex === index && index !== draggedIndex ? 'ring-2 ring-purple-300' : ''
                 }`}
               >
                 <span className="text-sm text-gray-400 w-6">{index + 1}</span>
@@ -440,18 +1007,167 @@ export const MusicPlayer: React.FC<MusicPlayerProps> = ({ tracks }) => {
                     <p className="text-xs text-gray-400">{track.genre}</p>
                   )}
                 </div>
+                <div className="flex items-center space-x-1" onClick={(e) => e.stopPropagation()}>
+                  <button
+                    onClick={() => handleToggleLike(track.id)}
+                    className={`p-1 rounded transition-colors hover:bg-pink-50 ${
+                      likedIds.has(track.id) ? 'text-pink-500' : 'text-gray-400 hover:text-pink-500'
+                    }`}
+                    title={likedIds.has(track.id) ? 'Remove from Liked Songs' : 'Add to Liked Songs'}
+                  >
+                    <svg
+                      className="w-4 h-4"
+                      fill={likedIds.has(track.id) ? 'currentColor' : 'none'}
+                      stroke="currentColor"
+                      strokeWidth={1.5}
+                      viewBox="0 0 20 20"
+                    >
+                      <path d="M3.172 5.172a4 4 0 015.656 0L10 6.343l1.172-1.171a4 4 0 115.656 5.656L10 17.657l-6.828-6.829a4 4 0 010-5.656z" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={() => handlePlayNext(track)}
+                    className="p-1 rounded text-gray-400 hover:text-purple-600 hover:bg-purple-50 transition-colors"
+                    title="Play next"
+                  >
+                    <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                      <path d="M4.555 5.168A1 1 0 003 6v8a1 1 0 001.555.832L10 11.202V14a1 1 0 001.555.832l6-4a1 1 0 000-1.664l-6-4A1 1 0 0010 6v2.798l-5.445-3.63z" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={() => handleEnqueue(track)}
+                    className="p-1 rounded text-gray-400 hover:text-purple-600 hover:bg-purple-50 transition-colors"
+                    title="Add to queue"
+                  >
+                    <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                      <path d="M3 4a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm0 4a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm1 3a1 1 0 100 2h6a1 1 0 100-2H4zm11-1a1 1 0 011 1v2h2a1 1 0 110 2h-2v2a1 1 0 11-2 0v-2h-2a1 1 0 110-2h2v-2a1 1 0 011-1z" />
+                    </svg>
+                  </button>
+                  {myPlaylists.length > 0 && (
+                    <select
+                      value=""
+                      onChange={(e) => handleAddToPlaylist(track, e.target.value as Id<"playlists">)}
+                      className="text-xs bg-gray-100 rounded px-1 py-1 w-8"
+                      title="Add to playlist"
+                    >
+                      <option value="">+</option>
+                      {myPlaylists.map(p => (
+                        <option key={p._id} value={p._id}>{p.name}</option>
+                      ))}
+                    </select>
+                  )}
+                  {playlistId && !isSearching && (
+                    <button
+                      onClick={() => handleRemoveFromPlaylist(index)}
+                      className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-red-50 transition-colors"
+                      title="Remove from playlist"
+                    >
+                      <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                        <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+                      </svg>
+                    </button>
+                  )}
+                </div>
               </div>
             ))}
           </div>
-          {filteredTracks.length === 0 && searchQuery && (
-            <p className="text-center text-gray-500 py-4">No tracks found matching "{searchQuery}"</p>
+          {isSearching && searchStatus === 'CanLoadMore' && (
+            <button
+              onClick={() => loadMore(SEARCH_PAGE_SIZE)}
+              className="w-full mt-2 text-sm py-1 rounded bg-gray-100 hover:bg-gray-200 transition-colors"
+            >
+              Load more
+            </button>
+          )}
+          {isSearching && searchStatus === 'Exhausted' && searchTracks.length === 0 && (
+            <p className="text-center text-gray-500 py-4">No tracks found matching "{debouncedQuery}"</p>
+          )}
+        </div>
+
+        {/* Up Next Queue / Recently Played */}
+        <div className="px-6 py-3 md:w-72 border-t md:border-t-0 md:border-l">
+          <div className="flex items-center justify-between mb-3">
+            <div className="flex space-x-3">
+              <button
+                onClick={() => setSidePanel('queue')}
+                className={`font-semibold transition-colors ${
+                  sidePanel === 'queue' ? 'text-gray-700' : 'text-gray-400 hover:text-gray-600'
+                }`}
+              >
+                Up Next ({queuedEntries.length})
+              </button>
+              <button
+                onClick={() => setSidePanel('recent')}
+                className={`font-semibold transition-colors ${
+                  sidePanel === 'recent' ? 'text-gray-700' : 'text-gray-400 hover:text-gray-600'
+                }`}
+              >
+                Recently played
+              </button>
+            </div>
+            {sidePanel === 'queue' && queuedEntries.length > 0 && (
+              <button
+                onClick={handleClearQueue}
+                className="text-xs text-gray-500 hover:text-red-600 transition-colors"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+          {sidePanel === 'recent' ? (
+            recentEntries.length === 0 ? (
+              <p className="text-sm text-gray-400 py-4 text-center">Nothing played yet.</p>
+            ) : (
+              <div className="space-y-2 max-h-64 overflow-y-auto">
+                {recentEntries.map((entry) => (
+                  <div
+                    key={entry.playedAt + entry.track.id}
+                    onClick={() => selectTrack(entry.track.id)}
+                    className="flex items-center space-x-2 p-2 rounded bg-white cursor-pointer hover:bg-gray-100 transition-colors"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{entry.track.title}</p>
+                      <p className="text-xs text-gray-500 truncate">{entry.track.artist}</p>
+                    </div>
+                    <span className="text-xs text-gray-400">
+                      {new Date(entry.playedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )
+          ) : queuedEntries.length === 0 ? (
+            <p className="text-sm text-gray-400 py-4 text-center">
+              Queue is empty. The playlist continues after the current track.
+            </p>
+          ) : (
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {queuedEntries.map((entry, index) => (
+                <div key={entry.entryId} className="flex items-center space-x-2 p-2 rounded bg-white">
+                  <span className="text-xs text-gray-400 w-4">{index + 1}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{entry.track.title}</p>
+                    <p className="text-xs text-gray-500 truncate">{entry.track.artist}</p>
+                  </div>
+                  <button
+                    onClick={() => handleRemoveFromQueue(entry.entryId)}
+                    className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-red-50 transition-colors"
+                    title="Remove from queue"
+                  >
+                    <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20">
+                      <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+                    </svg>
+                  </button>
+                </div>
+              ))}
+            </div>
           )}
         </div>
       </div>
 
       {/* Keyboard Shortcuts Info */}
       <div className="px-6 py-2 bg-gray-100 text-xs text-gray-500">
-        <p>Keyboard shortcuts: Space (play/pause) • ← → (prev/next) • ↑ ↓ (volume)</p>
+        <p>Keyboard shortcuts: Space (play/pause) • ← → (prev/next) • ↑ ↓ (volume) • Ctrl+Z / Ctrl+Shift+Z (undo/redo)</p>
       </div>
     </div>
   );
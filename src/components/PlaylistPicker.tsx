@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { toast } from 'sonner';
+import { api } from '../../convex/_generated/api';
+import { Doc, Id } from '../../convex/_generated/dataModel';
+import { SmartPlaylistBuilder } from './SmartPlaylistBuilder';
+import { parsePlaylistFile } from '../lib/playlistFormats';
+
+// Virtual playlist built from the user's likes
+export const LIKED_SONGS = 'liked';
+
+// Smart playlists are selected as "smart:<id>"
+export const SMART_PREFIX = 'smart:';
+
+// null = the whole library
+export type PlaylistSelection =
+  | Id<"playlists">
+  | typeof LIKED_SONGS
+  | `${typeof SMART_PREFIX}${Id<"smartPlaylists">}`
+  | null;
+
+interface PlaylistPickerProps {
+  selectedPlaylistId: PlaylistSelection;
+  onSelect: (playlistId: PlaylistSelection) => void;
+}
+
+export const PlaylistPicker: React.FC<PlaylistPickerProps> = ({ selectedPlaylistId, onSelect }) => {
+  const playlists = useQuery(api.playlists.listMyPlaylists) ?? [];
+  const createPlaylist = useMutation(api.playlists.createPlaylist);
+  const renamePlaylist = useMutation(api.playlists.renamePlaylist);
+  const deletePlaylist = useMutation(api.playlists.deletePlaylist);
+  const smartPlaylists = useQuery(api.smartPlaylists.listMySmartPlaylists) ?? [];
+  const deleteSmartPlaylist = useMutation(api.smartPlaylists.deleteSmartPlaylist);
+  const importPlaylist = useMutation(api.playlists.importPlaylist);
+  const [newName, setNewName] = useState('');
+  const [builder, setBuilder] = useState<'new' | Doc<"smartPlaylists"> | null>(null);
+
+  const selectedPlaylist = playlists.find(p => p._id === selectedPlaylistId);
+  const selectedSmartPlaylist = smartPlaylists.find(p => `${SMART_PREFIX}${p._id}` === selectedPlaylistId);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newName.trim() === '') return;
+    createPlaylist({ name: newName })
+      .then((playlistId) => {
+        setNewName('');
+        onSelect(playlistId);
+        toast.success('Playlist created');
+      })
+      .catch(() => toast.error('Could not create playlist'));
+  };
+
+  const handleRename = () => {
+    if (!selectedPlaylist) return;
+    const name = window.prompt('Rename playlist', selectedPlaylist.name);
+    if (!name) return;
+    renamePlaylist({ playlistId: selectedPlaylist._id, name })
+      .catch(() => toast.error('Could not rename playlist'));
+  };
+
+  const handleDelete = () => {
+    if (!selectedPlaylist) return;
+    if (!window.confirm(`Delete "${selectedPlaylist.name}"?`)) return;
+    deletePlaylist({ playlistId: selectedPlaylist._id })
+      .then(() => onSelect(null))
+      .catch(() => toast.error('Could not delete playlist'));
+  };
+
+  // Import an M3U/M3U8/PLS/XSPF file as a new playlist named after the file
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    file.text()
+      .then((text) => importPlaylist({
+        name: file.name.replace(/\.[^.]+$/, ''),
+        entries: parsePlaylistFile(file.name, text),
+      }))
+      .then(({ playlistId, matched, created, unresolved }) => {
+        onSelect(playlistId);
+        toast.success(`Imported ${matched + created} tracks (${created} new)`);
+        if (unresolved.length > 0) {
+          toast.warning(`${unresolved.length} entries could not be resolved`, {
+            description: unresolved.map(({ line, reason }) => `Line ${line}: ${reason}`).join('\n'),
+            duration: 10000,
+          });
+        }
+      })
+      .catch(() => toast.error('Could not import playlist'));
+  };
+
+  const handleDeleteSmart = () => {
+    if (!selectedSmartPlaylist) return;
+    if (!window.confirm(`Delete "${selectedSmartPlaylist.name}"?`)) return;
+    deleteSmartPlaylist({ smartPlaylistId: selectedSmartPlaylist._id })
+      .then(() => onSelect(null))
+      .catch(() => toast.error('Could not delete smart playlist'));
+  };
+
+  return (
+    <>
+      <div className="bg-white rounded-lg shadow-lg p-4 mb-4 flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium text-gray-700">Playing from:</span>
+        <select
+          value={selectedPlaylistId ?? ''}
+          onChange={(e) => onSelect(e.target.value === '' ? null : e.target.value as PlaylistSelection)}
+          className="text-sm bg-gray-100 rounded px-2 py-1"
+        >
+          <option value="">All tracks</option>
+          <option value={LIKED_SONGS}>❤️ Liked Songs</option>
+          {playlists.map(p => (
+            <option key={p._id} value={p._id}>
+              {p.name} ({p.trackIds.length})
+            </option>
+          ))}
+          {smartPlaylists.length > 0 && (
+            <optgroup label="Smart playlists">
+              {smartPlaylists.map(p => (
+                <option key={p._id} value={`${SMART_PREFIX}${p._id}`}>
+                  ⚡ {p.name}
+                </option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+
+        {selectedPlaylist && (
+          <>
+            <button
+              onClick={handleRename}
+              className="text-sm px-3 py-1 rounded bg-gray-100 hover:bg-gray-200 transition-colors"
+            >
+              Rename
+            </button>
+            <button
+              onClick={handleDelete}
+              className="text-sm px-3 py-1 rounded bg-red-50 text-red-600 hover:bg-red-100 transition-colors"
+            >
+              Delete
+            </button>
+          </>
+        )}
+
+        {selectedSmartPlaylist && (
+          <>
+            <button
+              onClick={() => setBuilder(selectedSmartPlaylist)}
+              className="text-sm px-3 py-1 rounded bg-gray-100 hover:bg-gray-200 transition-colors"
+            >
+              Edit rules
+            </button>
+            <button
+              onClick={handleDeleteSmart}
+              className="text-sm px-3 py-1 rounded bg-red-50 text-red-600 hover:bg-red-100 transition-colors"
+            >
+              Delete
+            </button>
+          </>
+        )}
+
+        <button
+          onClick={() => setBuilder('new')}
+          className="text-sm px-3 py-1 rounded bg-gray-100 hover:bg-gray-200 transition-colors"
+        >
+          ⚡ New smart playlist
+        </button>
+
+        <label className="text-sm px-3 py-1 rounded bg-gray-100 hover:bg-gray-200 transition-colors cursor-pointer">
+          Import…
+          <input
+            type="file"
+            accept=".m3u,.m3u8,.pls,.xspf"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </label>
+
+        <form onSubmit={handleCreate} className="flex items-center gap-2 ml-auto">
+          <input
+            type="text"
+            placeholder="New playlist name"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            className="px-3 py-1 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+          <button
+            type="submit"
+            disabled={newName.trim() === ''}
+            className="text-sm px-3 py-1 rounded bg-purple-600 text-white hover:bg-purple-700 transition-colors disabled:opacity-50"
+          >
+            Create
+          </button>
+        </form>
+      </div>
+
+      {builder && (
+        <SmartPlaylistBuilder
+          key={builder === 'new' ? 'new' : builder._id}
+          existing={builder === 'new' ? undefined : builder}
+          onSaved={(smartPlaylistId) => {
+            setBuilder(null);
+            onSelect(`${SMART_PREFIX}${smartPlaylistId}`);
+          }}
+          onCancel={() => setBuilder(null)}
+        />
+      )}
+    </>
+  );
+};
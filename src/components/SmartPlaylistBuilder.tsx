@@ -0,0 +1,230 @@
+import React, { useState } from 'react';
+import { useMutation } from 'convex/react';
+import { FunctionArgs } from 'convex/server';
+import { toast } from 'sonner';
+import { api } from '../../convex/_generated/api';
+import { Doc } from '../../convex/_generated/dataModel';
+
+type SmartPlaylistFields = FunctionArgs<typeof api.smartPlaylists.createSmartPlaylist>;
+type Rule = SmartPlaylistFields['rules'][number];
+type SortField = NonNullable<SmartPlaylistFields['sortBy']>;
+
+// One entry per rule type shown in the rule picker
+const RULE_KINDS = {
+  genreEquals: { label: 'Genre is', create: (): Rule => ({ field: 'genre', op: 'equals', value: '' }) },
+  genreIn: { label: 'Genre is one of', create: (): Rule => ({ field: 'genre', op: 'in', values: [] }) },
+  artistContains: { label: 'Artist contains', create: (): Rule => ({ field: 'artist', op: 'contains', value: '' }) },
+  durationBetween: { label: 'Duration between (s)', create: (): Rule => ({ field: 'duration', op: 'between', min: 0, max: 300 }) },
+  liked: { label: 'Liked', create: (): Rule => ({ field: 'liked', op: 'is', value: true }) },
+  playCountGte: { label: 'Play count at least', create: (): Rule => ({ field: 'playCount', op: 'gte', value: 1 }) },
+  playCountLte: { label: 'Play count at most', create: (): Rule => ({ field: 'playCount', op: 'lte', value: 0 }) },
+};
+
+type RuleKind = keyof typeof RULE_KINDS;
+
+function kindOf(rule: Rule): RuleKind {
+  switch (rule.field) {
+    case 'genre':
+      return rule.op === 'equals' ? 'genreEquals' : 'genreIn';
+    case 'artist':
+      return 'artistContains';
+    case 'duration':
+      return 'durationBetween';
+    case 'liked':
+      return 'liked';
+    case 'playCount':
+      return rule.op === 'gte' ? 'playCountGte' : 'playCountLte';
+  }
+}
+
+interface SmartPlaylistBuilderProps {
+  existing?: Doc<"smartPlaylists">;
+  onSaved: (smartPlaylistId: Doc<"smartPlaylists">["_id"]) => void;
+  onCancel: () => void;
+}
+
+export const SmartPlaylistBuilder: React.FC<SmartPlaylistBuilderProps> = ({ existing, onSaved, onCancel }) => {
+  const createSmartPlaylist = useMutation(api.smartPlaylists.createSmartPlaylist);
+  const updateSmartPlaylist = useMutation(api.smartPlaylists.updateSmartPlaylist);
+
+  const [name, setName] = useState(existing?.name ?? '');
+  const [match, setMatch] = useState<'all' | 'any'>(existing?.match ?? 'all');
+  const [rules, setRules] = useState<Rule[]>(existing?.rules ?? [RULE_KINDS.genreEquals.create()]);
+  const [sortBy, setSortBy] = useState<SortField | ''>(existing?.sortBy ?? '');
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>(existing?.sortOrder ?? 'asc');
+  const [limit, setLimit] = useState(existing?.limit?.toString() ?? '');
+
+  const updateRule = (index: number, rule: Rule) => {
+    setRules(rules.map((r, i) => (i === index ? rule : r)));
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const fields: SmartPlaylistFields = {
+      name,
+      match,
+      rules,
+      sortBy: sortBy === '' ? undefined : sortBy,
+      sortOrder,
+      limit: limit.trim() === '' ? undefined : Math.max(0, parseInt(limit, 10) || 0),
+    };
+    const saved = existing
+      ? updateSmartPlaylist({ smartPlaylistId: existing._id, ...fields }).then(() => existing._id)
+      : createSmartPlaylist(fields);
+    saved
+      .then((smartPlaylistId) => {
+        toast.success('Smart playlist saved');
+        onSaved(smartPlaylistId);
+      })
+      .catch(() => toast.error('Could not save smart playlist'));
+  };
+
+  const inputClass = 'px-2 py-1 text-sm border rounded focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+  return (
+    <form onSubmit={handleSave} className="bg-white rounded-lg shadow-lg p-4 mb-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          placeholder="Smart playlist name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className={`${inputClass} flex-1`}
+          required
+        />
+        <span className="text-sm text-gray-600">Match</span>
+        <select value={match} onChange={(e) => setMatch(e.target.value as 'all' | 'any')} className="text-sm bg-gray-100 rounded px-2 py-1">
+          <option value="all">all rules (AND)</option>
+          <option value="any">any rule (OR)</option>
+        </select>
+      </div>
+
+      <div className="space-y-2">
+        {rules.map((rule, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <select
+              value={kindOf(rule)}
+              onChange={(e) => updateRule(index, RULE_KINDS[e.target.value as RuleKind].create())}
+              className="text-sm bg-gray-100 rounded px-2 py-1"
+            >
+              {(Object.keys(RULE_KINDS) as RuleKind[]).map((kind) => (
+                <option key={kind} value={kind}>{RULE_KINDS[kind].label}</option>
+              ))}
+            </select>
+
+            {(rule.field === 'genre' && rule.op === 'equals') || rule.field === 'artist' ? (
+              <input
+                type="text"
+                value={rule.value}
+                onChange={(e) => updateRule(index, { ...rule, value: e.target.value })}
+                className={inputClass}
+              />
+            ) : rule.field === 'genre' ? (
+              <input
+                type="text"
+                placeholder="Pop, Soul, Funk"
+                value={rule.values.join(', ')}
+                onChange={(e) => updateRule(index, {
+                  ...rule,
+                  values: e.target.value.split(',').map(value => value.trim()).filter(Boolean),
+                })}
+                className={inputClass}
+              />
+            ) : rule.field === 'duration' ? (
+              <>
+                <input
+                  type="number"
+                  min={0}
+                  value={rule.min}
+                  onChange={(e) => updateRule(index, { ...rule, min: Number(e.target.value) })}
+                  className={`${inputClass} w-20`}
+                />
+                <span className="text-sm text-gray-500">and</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={rule.max}
+                  onChange={(e) => updateRule(index, { ...rule, max: Number(e.target.value) })}
+                  className={`${inputClass} w-20`}
+                />
+              </>
+            ) : rule.field === 'liked' ? (
+              <select
+                value={rule.value ? 'yes' : 'no'}
+                onChange={(e) => updateRule(index, { ...rule, value: e.target.value === 'yes' })}
+                className="text-sm bg-gray-100 rounded px-2 py-1"
+              >
+                <option value="yes">yes</option>
+                <option value="no">no</option>
+              </select>
+            ) : (
+              <input
+                type="number"
+                min={0}
+                value={rule.value}
+                onChange={(e) => updateRule(index, { ...rule, value: Number(e.target.value) })}
+                className={`${inputClass} w-20`}
+              />
+            )}
+
+            <button
+              type="button"
+              onClick={() => setRules(rules.filter((_, i) => i !== index))}
+              className="text-sm text-gray-400 hover:text-red-600 transition-colors"
+              title="Remove rule"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => setRules([...rules, RULE_KINDS.genreEquals.create()])}
+          className="text-sm text-purple-600 hover:underline"
+        >
+          + Add rule
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-gray-600">Sort by</span>
+        <select value={sortBy} onChange={(e) => setSortBy(e.target.value as SortField | '')} className="text-sm bg-gray-100 rounded px-2 py-1">
+          <option value="">Library order</option>
+          <option value="title">Title</option>
+          <option value="artist">Artist</option>
+          <option value="duration">Duration</option>
+          <option value="playCount">Play count</option>
+          <option value="addedAt">Date added</option>
+        </select>
+        <select value={sortOrder} onChange={(e) => setSortOrder(e.target.value as 'asc' | 'desc')} className="text-sm bg-gray-100 rounded px-2 py-1">
+          <option value="asc">Ascending</option>
+          <option value="desc">Descending</option>
+        </select>
+        <span className="text-sm text-gray-600">Limit</span>
+        <input
+          type="number"
+          min={0}
+          placeholder="none"
+          value={limit}
+          onChange={(e) => setLimit(e.target.value)}
+          className={`${inputClass} w-20`}
+        />
+        <div className="ml-auto flex gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="text-sm px-3 py-1 rounded bg-gray-100 hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="text-sm px-3 py-1 rounded bg-purple-600 text-white hover:bg-purple-700 transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { useQuery } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+
+type StatsRange = '7d' | '30d' | 'all';
+
+const RANGE_LABELS: Record<StatsRange, string> = {
+  '7d': 'Last 7 days',
+  '30d': 'Last 30 days',
+  all: 'All time',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Start of the range, fixed when the range is picked so the query args stay stable
+function rangeStart(range: StatsRange): number | undefined {
+  if (range === '7d') return Date.now() - 7 * DAY_MS;
+  if (range === '30d') return Date.now() - 30 * DAY_MS;
+  return undefined;
+}
+
+function formatListeningTime(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return `${minutes}m ${totalSeconds % 60}s`;
+}
+
+export const Stats: React.FC = () => {
+  const [range, setRange] = useState<StatsRange>('30d');
+  const [from, setFrom] = useState<number | undefined>(() => rangeStart('30d'));
+  const stats = useQuery(api.plays.getMyStats, { from });
+
+  const handleRangeChange = (next: StatsRange) => {
+    setRange(next);
+    setFrom(rangeStart(next));
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-gray-800">📊 Listening Stats</h2>
+        <div className="flex space-x-2">
+          {(Object.keys(RANGE_LABELS) as StatsRange[]).map((key) => (
+            <button
+              key={key}
+              onClick={() => handleRangeChange(key)}
+              className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
+                range === key
+                  ? 'bg-purple-600 text-white'
+                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              {RANGE_LABELS[key]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {stats === undefined ? (
+        <div className="flex justify-center items-center min-h-[200px]">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+        </div>
+      ) : stats === null || stats.playCount === 0 ? (
+        <div className="bg-white rounded-lg shadow-lg p-8 text-center">
+          <p className="text-gray-600">No plays recorded for this period yet. Start listening!</p>
+        </div>
+      ) : (
+        <>
+          <div className="grid md:grid-cols-3 gap-4">
+            <div className="bg-white rounded-lg shadow-lg p-6 text-center">
+              <p className="text-sm text-gray-500">Listening time</p>
+              <p className="text-3xl font-bold text-purple-600">{formatListeningTime(stats.totalSeconds)}</p>
+            </div>
+            <div className="bg-white rounded-lg shadow-lg p-6 text-center">
+              <p className="text-sm text-gray-500">Plays</p>
+              <p className="text-3xl font-bold text-blue-600">{stats.playCount}</p>
+            </div>
+            <div className="bg-white rounded-lg shadow-lg p-6 text-center">
+              <p className="text-sm text-gray-500">Completed / skipped</p>
+              <p className="text-3xl font-bold text-gray-700">
+                {stats.completedCount} / {stats.skippedCount}
+              </p>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            <h3 className="text-lg font-semibold text-gray-700 mb-3">Top Tracks</h3>
+            <div className="space-y-2">
+              {stats.topTracks.map(({ track, plays, seconds }, index) => (
+                <div key={track._id} className="flex items-center space-x-3 p-2 rounded hover:bg-gray-50">
+                  <span className="text-sm text-gray-400 w-6">{index + 1}</span>
+                  {track.coverUrl && (
+                    <img src={track.coverUrl} alt={track.title} className="w-8 h-8 rounded object-cover" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{track.title}</p>
+                    <p className="text-sm text-gray-500 truncate">{track.artist}</p>
+                  </div>
+                  <div className="text-right text-sm text-gray-500">
+                    <p>{plays} plays</p>
+                    <p className="text-xs text-gray-400">{formatListeningTime(seconds)}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div className="bg-white rounded-lg shadow-lg p-6">
+              <h3 className="text-lg font-semibold text-gray-700 mb-3">Top Artists</h3>
+              <ul className="space-y-2">
+                {stats.topArtists.map(({ artist, plays }) => (
+                  <li key={artist} className="flex justify-between text-sm">
+                    <span className="text-gray-700 truncate">{artist}</span>
+                    <span className="text-gray-500">{plays} plays</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <div className="bg-white rounded-lg shadow-lg p-6">
+              <h3 className="text-lg font-semibold text-gray-700 mb-3">Top Genres</h3>
+              <ul className="space-y-2">
+                {stats.topGenres.map(({ genre, plays }) => (
+                  <li key={genre} className="flex justify-between text-sm">
+                    <span className="text-gray-700">{genre}</span>
+                    <span className="text-gray-500">{plays} plays</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,298 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useMutation } from 'convex/react';
+import { toast } from 'sonner';
+import { api } from '../../convex/_generated/api';
+import { Id } from '../../convex/_generated/dataModel';
+import { isAudioFile, readAudioDuration, titleFromFileName, uploadFile } from '../lib/audioUpload';
+import { readTags, TrackArtwork } from '../lib/tagReader';
+import { getTrackFieldErrors, TrackField, TrackFieldErrors, validateNewTrack } from '../../convex/trackValidation';
+
+export const UploadTrack: React.FC = () => {
+  const generateUploadUrl = useMutation(api.tracks.generateUploadUrl);
+  const addUploadedTrack = useMutation(api.tracks.addUploadedTrack);
+  const discardUploads = useMutation(api.tracks.discardUploads);
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [duration, setDuration] = useState<number | null>(null);
+  const [title, setTitle] = useState('');
+  const [artist, setArtist] = useState('');
+  const [genre, setGenre] = useState('');
+  const [album, setAlbum] = useState('');
+  const [year, setYear] = useState('');
+  const [trackNumber, setTrackNumber] = useState('');
+  const [artwork, setArtwork] = useState<TrackArtwork | null>(null);
+  const [artworkUrl, setArtworkUrl] = useState<string | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<TrackFieldErrors>({});
+  // The chosen file, read by the duration and tag callbacks so results for a file the
+  // user has since replaced are dropped
+  const fileRef = useRef<File | null>(null);
+
+  // Preview the embedded artwork and release the object URL when it changes
+  useEffect(() => {
+    if (!artwork) {
+      setArtworkUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(new Blob([artwork.data], { type: artwork.mimeType }));
+    setArtworkUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [artwork]);
+
+  const reset = () => {
+    fileRef.current = null;
+    setFile(null);
+    setDuration(null);
+    setTitle('');
+    setArtist('');
+    setGenre('');
+    setAlbum('');
+    setYear('');
+    setTrackNumber('');
+    setArtwork(null);
+    setProgress(null);
+    setFieldErrors({});
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+    if (!isAudioFile(selected)) {
+      toast.error(`"${selected.name}" is not an audio file`);
+      return;
+    }
+    reset();
+    fileRef.current = selected;
+    setFile(selected);
+    setTitle(titleFromFileName(selected.name));
+    const isCurrent = () => fileRef.current === selected;
+    readAudioDuration(selected)
+      .then((seconds) => {
+        if (isCurrent()) setDuration(seconds);
+      })
+      .catch((error: Error) => {
+        if (!isCurrent()) return;
+        fileRef.current = null;
+        setFile(null);
+        toast.error(error.message);
+      });
+    // Pre-fill the form from the embedded tags; anything missing stays editable
+    void readTags(selected).then((tags) => {
+      if (!isCurrent()) return;
+      if (tags.title) setTitle(tags.title);
+      if (tags.artist) setArtist(tags.artist);
+      if (tags.genre) setGenre(tags.genre);
+      if (tags.album) setAlbum(tags.album);
+      if (tags.year) setYear(tags.year.toString());
+      if (tags.trackNumber) setTrackNumber(tags.trackNumber.toString());
+      setArtwork(tags.artwork ?? null);
+    });
+  };
+
+  const optionalText = (value: string) => (value.trim() === '' ? undefined : value.trim());
+  const optionalNumber = (value: string) => {
+    const parsed = parseInt(value, 10);
+    return Number.isNaN(parsed) ? undefined : parsed;
+  };
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file || duration === null) return;
+    const fields = {
+      title,
+      artist,
+      duration,
+      genre: optionalText(genre),
+      album: optionalText(album),
+      year: optionalNumber(year),
+      trackNumber: optionalNumber(trackNumber),
+    };
+    setProgress(0);
+    // Files already in storage, removed again if the track cannot be added
+    const uploaded: Id<"_storage">[] = [];
+    try {
+      // Same checks as the server, so invalid input is reported before anything is uploaded
+      validateNewTrack(fields);
+      // Both upload URLs check the role, so get them before uploading anything
+      const [audioUploadUrl, coverUploadUrl] = await Promise.all([
+        generateUploadUrl(),
+        artwork ? generateUploadUrl() : null,
+      ]);
+      // Artwork is small, so only the audio upload reports progress
+      const coverStorageId = artwork && coverUploadUrl
+        ? await uploadFile(coverUploadUrl, new Blob([artwork.data], { type: artwork.mimeType }), () => {})
+        : undefined;
+      if (coverStorageId) uploaded.push(coverStorageId);
+      const storageId = await uploadFile(audioUploadUrl, file, setProgress);
+      uploaded.push(storageId);
+      const { possibleDuplicates } = await addUploadedTrack({ storageId, coverStorageId, ...fields });
+      toast.success(`Uploaded "${title.trim()}"`);
+      if (possibleDuplicates.length > 0) {
+        toast.warning('This track may already be in the library', {
+          description: possibleDuplicates.map((track) => `${track.artist} - ${track.title}`).join('\n'),
+        });
+      }
+      reset();
+      setIsOpen(false);
+    } catch (error) {
+      setProgress(null);
+      if (uploaded.length > 0) {
+        discardUploads({ storageIds: uploaded }).catch(console.error);
+      }
+      const errors = getTrackFieldErrors(error);
+      if (errors) {
+        setFieldErrors(errors);
+        Object.values(errors).forEach((message) => toast.error(message));
+      } else {
+        toast.error('Could not upload track');
+      }
+    }
+  };
+
+  // Editing a field clears its error
+  const handleFieldChange = (field: TrackField, setValue: (value: string) => void) =>
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      setValue(e.target.value);
+      setFieldErrors(({ [field]: _cleared, ...rest }) => rest);
+    };
+
+  const formatDuration = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+
+  const inputClass = (field: TrackField) =>
+    `px-3 py-1 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 ${
+      fieldErrors[field] ? 'border-red-500' : ''
+    }`;
+  const isUploading = progress !== null;
+
+  if (!isOpen) {
+    return (
+      <div className="mb-4 flex justify-end">
+        <button
+          onClick={() => setIsOpen(true)}
+          className="text-sm px-3 py-1 rounded bg-gray-100 hover:bg-gray-200 transition-colors"
+        >
+          ⬆ Upload track
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={(e) => void handleUpload(e)} className="bg-white rounded-lg shadow-lg p-4 mb-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          type="file"
+          accept="audio/*"
+          onChange={handleFileChange}
+          disabled={isUploading}
+          className="text-sm"
+        />
+        {file && (
+          <span className="text-sm text-gray-500">
+            {duration === null ? 'Reading duration...' : `Duration ${formatDuration(duration)}`}
+          </span>
+        )}
+      </div>
+
+      {file && (
+        <div className="flex gap-3">
+          {artworkUrl && (
+            <img src={artworkUrl} alt="Embedded artwork" className="w-20 h-20 rounded object-cover" />
+          )}
+          <div className="flex-1 space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="text"
+                placeholder="Title"
+                value={title}
+                onChange={handleFieldChange('title', setTitle)}
+                className={`${inputClass('title')} flex-1`}
+                disabled={isUploading}
+                required
+              />
+              <input
+                type="text"
+                placeholder="Artist"
+                value={artist}
+                onChange={handleFieldChange('artist', setArtist)}
+                className={`${inputClass('artist')} flex-1`}
+                disabled={isUploading}
+                required
+              />
+              <input
+                type="text"
+                placeholder="Genre (optional)"
+                value={genre}
+                onChange={handleFieldChange('genre', setGenre)}
+                className={inputClass('genre')}
+                disabled={isUploading}
+              />
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="text"
+                placeholder="Album (optional)"
+                value={album}
+                onChange={handleFieldChange('album', setAlbum)}
+                className={`${inputClass('album')} flex-1`}
+                disabled={isUploading}
+              />
+              <input
+                type="number"
+                placeholder="Year"
+                value={year}
+                onChange={handleFieldChange('year', setYear)}
+                className={`${inputClass('year')} w-24`}
+                disabled={isUploading}
+              />
+              <input
+                type="number"
+                min={1}
+                placeholder="Track #"
+                value={trackNumber}
+                onChange={handleFieldChange('trackNumber', setTrackNumber)}
+                className={`${inputClass('trackNumber')} w-24`}
+                disabled={isUploading}
+              />
+            </div>
+            {/* Duration is read from the file, so its error has no input to highlight */}
+            {fieldErrors.duration && <p className="text-sm text-red-600">{fieldErrors.duration}</p>}
+          </div>
+        </div>
+      )}
+
+      {isUploading && (
+        <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-gradient-to-r from-purple-500 to-blue-500 transition-all duration-150"
+            style={{ width: `${Math.round(progress * 100)}%` }}
+          />
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={() => {
+            reset();
+            setIsOpen(false);
+          }}
+          disabled={isUploading}
+          className="text-sm px-3 py-1 rounded bg-gray-100 hover:bg-gray-200 transition-colors disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!file || duration === null || isUploading}
+          className="text-sm px-3 py-1 rounded bg-purple-600 text-white hover:bg-purple-700 transition-colors disabled:opacity-50"
+        >
+          {isUploading ? `Uploading ${Math.round(progress * 100)}%` : 'Upload'}
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useRef, useState } from 'react';
+import { WAVEFORM_POINTS } from '../../convex/waveform';
+
+interface WaveformSeekBarProps {
+  // Stored peaks, or null while the track has not been measured yet
+  peaks: number[] | null;
+  currentTime: number;
+  duration: number;
+  buffered: [number, number][];
+  onSeek: (time: number) => void;
+  formatTime: (seconds: number) => string;
+}
+
+const KEYBOARD_STEP_SECONDS = 5;
+// Bars drawn while there is no waveform yet
+const PLACEHOLDER_PEAKS = new Array<number>(WAVEFORM_POINTS).fill(0.3);
+
+export const WaveformSeekBar: React.FC<WaveformSeekBarProps> = ({
+  peaks,
+  currentTime,
+  duration,
+  buffered,
+  onSeek,
+  formatTime,
+}) => {
+  const barRef = useRef<HTMLDivElement>(null);
+  const [hoverFraction, setHoverFraction] = useState<number | null>(null);
+
+  const bars = peaks ?? PLACEHOLDER_PEAKS;
+  // Scale quiet recordings up so their shape is still visible
+  const loudest = Math.max(...bars) || 1;
+  const progress = duration > 0 ? Math.min(1, currentTime / duration) : 0;
+
+  const fractionAt = (clientX: number) => {
+    const rect = barRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    return Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+  };
+
+  const seekBy = (seconds: number) => onSeek(Math.min(duration, Math.max(0, currentTime + seconds)));
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowLeft') seekBy(-KEYBOARD_STEP_SECONDS);
+    else if (e.key === 'ArrowRight') seekBy(KEYBOARD_STEP_SECONDS);
+    else if (e.key === 'Home') onSeek(0);
+    else if (e.key === 'End') onSeek(duration);
+    else return;
+    e.preventDefault();
+    // Keep the player's global shortcuts from also acting on these keys
+    e.stopPropagation();
+  };
+
+  const barColor = (index: number) => {
+    const position = (index + 0.5) / bars.length;
+    if (position <= progress) return 'bg-purple-600';
+    if (hoverFraction !== null && position <= hoverFraction) return 'bg-purple-300';
+    return 'bg-gray-300';
+  };
+
+  return (
+    <div
+      ref={barRef}
+      role="slider"
+      tabIndex={0}
+      aria-label="Seek"
+      aria-valuemin={0}
+      aria-valuemax={Math.round(duration)}
+      aria-valuenow={Math.round(currentTime)}
+      aria-valuetext={formatTime(currentTime)}
+      onMouseMove={(e) => setHoverFraction(fractionAt(e.clientX))}
+      onMouseLeave={() => setHoverFraction(null)}
+      onClick={(e) => onSeek(fractionAt(e.clientX) * duration)}
+      onKeyDown={handleKeyDown}
+      className="relative flex-1 h-12 cursor-pointer select-none rounded focus:outline-none focus:ring-2 focus:ring-purple-500"
+    >
+      {/* Downloaded regions */}
+      {duration > 0 && buffered.map(([start, end]) => (
+        <div
+          key={start}
+          className="absolute inset-y-0 bg-purple-50 rounded"
+          style={{ left: `${(start / duration) * 100}%`, width: `${((end - start) / duration) * 100}%` }}
+        />
+      ))}
+
+      <div className={`relative flex items-center h-full gap-px ${peaks ? '' : 'opacity-50'}`}>
+        {bars.map((peak, index) => (
+          <div
+            key={index}
+            className={`flex-1 rounded-sm ${barColor(index)}`}
+            style={{ height: `${Math.max(6, (peak / loudest) * 100)}%` }}
+          />
+        ))}
+      </div>
+
+      {hoverFraction !== null && (
+        <div
+          className="absolute -top-7 -translate-x-1/2 px-1.5 py-0.5 text-xs text-white bg-gray-800 rounded pointer-events-none"
+          style={{ left: `${hoverFraction * 100}%` }}
+        >
+          {formatTime(hoverFraction * duration)}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import { EQ_BANDS, EqSettings, FLAT_EQ } from '../../convex/equalizer';
+
+// About one octave wide, so neighbouring peaking bands overlap smoothly
+const BAND_Q = 1.41;
+// Time constant for gain changes, short enough to feel instant without clicks
+const SMOOTHING_SECONDS = 0.02;
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+// Preamp followed by a low shelf, eight peaking filters and a high shelf
+export class Equalizer {
+  readonly input: GainNode;
+  readonly output: AudioNode;
+  private context: AudioContext;
+  private filters: BiquadFilterNode[];
+
+  constructor(context: AudioContext, settings: EqSettings = FLAT_EQ) {
+    this.context = context;
+    this.input = context.createGain();
+    this.filters = EQ_BANDS.map((frequency, index) => {
+      const filter = context.createBiquadFilter();
+      filter.type = index === 0 ? 'lowshelf' : index === EQ_BANDS.length - 1 ? 'highshelf' : 'peaking';
+      filter.frequency.value = frequency;
+      filter.Q.value = BAND_Q;
+      return filter;
+    });
+
+    let node: AudioNode = this.input;
+    for (const filter of this.filters) {
+      node.connect(filter);
+      node = filter;
+    }
+    this.output = node;
+    this.apply(settings);
+  }
+
+  apply(settings: EqSettings): void {
+    const now = this.context.currentTime;
+    this.input.gain.setTargetAtTime(dbToGain(settings.preamp), now, SMOOTHING_SECONDS);
+    this.filters.forEach((filter, index) => {
+      filter.gain.setTargetAtTime(settings.gains[index] ?? 0, now, SMOOTHING_SECONDS);
+    });
+  }
+}
@@ -1,3 +1,18 @@
+import { generateSeed, shuffleItems, ShuffleOptions } from '../../convex/shuffle';
+import { TrackLoudness } from '../../convex/loudness';
+
+// Plain track data as stored in Convex
+export interface TrackData {
+  _id: string;
+  title: string;
+  artist: string;
+  duration: number;
+  audioUrl: string;
+  coverUrl?: string;
+  genre?: string;
+  loudness?: TrackLoudness;
+}
+
 // Enhanced Doubly Linked List Node for Music Tracks
 export class TrackNode {
   id: string;
@@ -7,6 +22,7 @@ export class TrackNode {
   audioUrl: string;
   coverUrl?: string;
   genre?: string;
+  loudness?: TrackLoudness;
   next: TrackNode | null = null;
   prev: TrackNode | null = null;
 
@@ -18,6 +34,7 @@ export class TrackNode {
     audioUrl: string;
     coverUrl?: string;
     genre?: string;
+    loudness?: TrackLoudness;
   }) {
     this.id = track._id;
     this.title = track.title;
@@ -26,6 +43,7 @@ export class TrackNode {
     this.audioUrl = track.audioUrl;
     this.coverUrl = track.coverUrl;
     this.genre = track.genre;
+    this.loudness = track.loudness;
   }
 
   // Get formatted duration
@@ -34,8 +52,46 @@ export class TrackNode {
     const seconds = this.duration % 60;
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
   }
+
+  // Refresh the track data in place, keeping the list pointers
+  updateFrom(track: TrackData): TrackNode {
+    this.title = track.title;
+    this.artist = track.artist;
+    this.duration = track.duration;
+    this.audioUrl = track.audioUrl;
+    this.coverUrl = track.coverUrl;
+    this.genre = track.genre;
+    this.loudness = track.loudness;
+    return this;
+  }
+
+  // Copy the track data without the list pointers
+  toTrackData(): TrackData {
+    return {
+      _id: this.id,
+      title: this.title,
+      artist: this.artist,
+      duration: this.duration,
+      audioUrl: this.audioUrl,
+      coverUrl: this.coverUrl,
+      genre: this.genre,
+      loudness: this.loudness,
+    };
+  }
+}
+
+// Full list state, used to undo whole-list edits like shuffle and clear
+export interface ListSnapshot {
+  tracks: TrackData[];
+  originalOrder: TrackData[];
+  currentIndex: number;
+  isShuffled: boolean;
+  shuffleSeed: number | null;
 }
 
+// off: stop after the tail, all: wrap around, one: loop the current track
+export type RepeatMode = 'off' | 'all' | 'one';
+
 // Enhanced Circular Doubly Linked List for Music Playlist
 export class MusicLinkedList {
   private head: TrackNode | null = null;
@@ -43,6 +99,8 @@ export class MusicLinkedList {
   private size: number = 0;
   private isShuffled: boolean = false;
   private originalOrder: TrackNode[] = [];
+  private repeatMode: RepeatMode = 'all';
+  private shuffleSeed: number | null = null;
 
   // Add a track to the end of the list
   addTrack(track: {
@@ -53,6 +111,7 @@ export class MusicLinkedList {
     audioUrl: string;
     coverUrl?: string;
     genre?: string;
+    loudness?: TrackLoudness;
   }): void {
     const newNode = new TrackNode(track);
     
@@ -76,20 +135,293 @@ export class MusicLinkedList {
     this.updateOriginalOrder();
   }
 
-  // Move to the next track
+  // Append a page of tracks, updating originalOrder once for the whole batch
+  appendTracks(tracks: TrackData[]): void {
+    if (tracks.length === 0) return;
+
+    const nodes = tracks.map(track => new TrackNode(track));
+    if (this.isShuffled) {
+      this.originalOrder.push(...nodes);
+    }
+    this.relink([...this.getAllTracks(), ...nodes], this.current);
+  }
+
+  // Apply a fresh copy of the source list as a diff: matching nodes are updated in place,
+  // missing ones removed and new ones appended, so the current track and any local
+  // reordering survive live changes. Returns whether tracks were added or removed.
+  syncTracks(tracks: TrackData[]): boolean {
+    // Group the existing nodes by ID so duplicate entries are matched in order
+    const pool = new Map<string, TrackNode[]>();
+    this.getAllTracks().forEach(node => {
+      const nodes = pool.get(node.id);
+      if (nodes) {
+        nodes.push(node);
+      } else {
+        pool.set(node.id, [node]);
+      }
+    });
+
+    const added: TrackNode[] = [];
+    tracks.forEach(track => {
+      const node = pool.get(track._id)?.shift();
+      if (node) {
+        node.updateFrom(track);
+      } else {
+        added.push(new TrackNode(track));
+      }
+    });
+    const removed = new Set([...pool.values()].flat());
+
+    // If the current track was removed, continue from the next surviving one
+    let current = this.current;
+    if (current && removed.has(current)) {
+      let node = current.next!;
+      while (node !== current && removed.has(node)) node = node.next!;
+      current = node === current ? null : node;
+    }
+
+    const surviving = this.getAllTracks().filter(node => !removed.has(node));
+    if (this.isShuffled) {
+      // originalOrder holds copies made before the shuffle: match them to the surviving
+      // nodes by ID so restoring brings back the pre-shuffle order, with new tracks last
+      const byId = new Map<string, TrackNode[]>();
+      surviving.forEach(node => {
+        const nodes = byId.get(node.id);
+        if (nodes) {
+          nodes.push(node);
+        } else {
+          byId.set(node.id, [node]);
+        }
+      });
+      const restored = this.originalOrder
+        .map(node => byId.get(node.id)?.shift())
+        .filter((node): node is TrackNode => node !== undefined);
+      this.originalOrder = [...restored, ...[...byId.values()].flat(), ...added];
+    }
+    this.relink([...surviving, ...added], current);
+    return added.length > 0 || removed.size > 0;
+  }
+
+  // Insert a track right after the track with the given ID
+  insertAfter(afterId: string, track: {
+    _id: string;
+    title: string;
+    artist: string;
+    duration: number;
+    audioUrl: string;
+    coverUrl?: string;
+    genre?: string;
+    loudness?: TrackLoudness;
+  }): boolean {
+    const afterNode = this.findNode(afterId);
+    if (!afterNode) return false;
+
+    const newNode = new TrackNode(track);
+    this.linkBefore(newNode, afterNode.next!);
+    this.size++;
+    this.trackInsertedNode(newNode);
+    return true;
+  }
+
+  // Insert a track at a position (0 = new head, size = append)
+  insertAt(index: number, track: {
+    _id: string;
+    title: string;
+    artist: string;
+    duration: number;
+    audioUrl: string;
+    coverUrl?: string;
+    genre?: string;
+    loudness?: TrackLoudness;
+  }): void {
+    if (!this.head || index >= this.size) {
+      this.addTrack(track);
+      return;
+    }
+
+    const newNode = new TrackNode(track);
+    const target = this.getNodeAt(Math.max(0, index))!;
+    this.linkBefore(newNode, target);
+    if (target === this.head && index <= 0) {
+      this.head = newNode;
+    }
+    this.size++;
+    this.trackInsertedNode(newNode);
+  }
+
+  // Move a track to a new position, keeping the same node (and current) intact
+  moveTrack(trackId: string, toIndex: number): boolean {
+    return this.moveTrackAt(this.indexOf(trackId), toIndex);
+  }
+
+  // Move the track at a position; unlike moveTrack this picks the exact entry when the
+  // track appears more than once
+  moveTrackAt(fromIndex: number, toIndex: number): boolean {
+    const node = this.getNodeAt(fromIndex);
+    if (!node) return false;
+    if (this.size === 1) return true;
+
+    const targetIndex = Math.max(0, Math.min(toIndex, this.size - 1));
+
+    // Detach the node from its current position
+    if (node === this.head) {
+      this.head = node.next;
+    }
+    this.unlink(node);
+
+    // Re-attach it before the node that will follow it
+    if (targetIndex === this.size - 1) {
+      this.linkBefore(node, this.head!);
+    } else {
+      const target = this.getNodeAt(targetIndex, this.size - 1)!;
+      this.linkBefore(node, target);
+      if (target === this.head && targetIndex === 0) {
+        this.head = node;
+      }
+    }
+
+    this.updateOriginalOrder();
+    return true;
+  }
+
+  // Swap the positions of two tracks
+  swapTracks(firstId: string, secondId: string): boolean {
+    const firstIndex = this.indexOf(firstId);
+    const secondIndex = this.indexOf(secondId);
+    if (firstIndex === -1 || secondIndex === -1) return false;
+    if (firstIndex === secondIndex) return true;
+
+    const [lowId, lowIndex, highId, highIndex] = firstIndex < secondIndex
+      ? [firstId, firstIndex, secondId, secondIndex]
+      : [secondId, secondIndex, firstId, firstIndex];
+
+    this.moveTrack(highId, lowIndex);
+    this.moveTrack(lowId, highIndex);
+    return true;
+  }
+
+  // Get the position of a track in the list (-1 if missing)
+  indexOf(trackId: string): number {
+    if (!this.head) return -1;
+
+    let node = this.head;
+    let index = 0;
+    do {
+      if (node.id === trackId) return index;
+      node = node.next!;
+      index++;
+    } while (node !== this.head);
+
+    return -1;
+  }
+
+  // Find a node by track ID
+  private findNode(trackId: string): TrackNode | null {
+    const index = this.indexOf(trackId);
+    return index === -1 ? null : this.getNodeAt(index);
+  }
+
+  // Get the node at a position, walking from whichever end is closer
+  private getNodeAt(index: number, size: number = this.size): TrackNode | null {
+    if (!this.head || index < 0 || index >= size) return null;
+
+    let node = this.head;
+    if (index <= size / 2) {
+      for (let i = 0; i < index; i++) node = node.next!;
+    } else {
+      for (let i = size; i > index; i--) node = node.prev!;
+    }
+    return node;
+  }
+
+  // Link a detached node in front of `target`
+  private linkBefore(node: TrackNode, target: TrackNode): void {
+    const before = target.prev!;
+    node.prev = before;
+    node.next = target;
+    before.next = node;
+    target.prev = node;
+  }
+
+  // Unlink a node from its neighbours (head must already be moved off it)
+  private unlink(node: TrackNode): void {
+    node.prev!.next = node.next;
+    node.next!.prev = node.prev;
+    node.next = null;
+    node.prev = null;
+  }
+
+  // Rebuild the circular links over the given nodes in order
+  private relink(nodes: TrackNode[], current: TrackNode | null): void {
+    nodes.forEach((node, index) => {
+      node.next = nodes[(index + 1) % nodes.length];
+      node.prev = nodes[(index - 1 + nodes.length) % nodes.length];
+    });
+    this.head = nodes[0] ?? null;
+    this.size = nodes.length;
+    this.current = current && nodes.includes(current) ? current : this.head;
+    this.updateOriginalOrder();
+  }
+
+  // Keep originalOrder in sync after a positional insert
+  private trackInsertedNode(node: TrackNode): void {
+    if (this.isShuffled) {
+      this.originalOrder.push(node);
+    } else {
+      this.updateOriginalOrder();
+    }
+  }
+
+  // Move to the next track (returns null at the tail when repeat is off)
   nextTrack(): TrackNode | null {
-    if (!this.current) return null;
+    if (!this.current || !this.hasNext()) return null;
     this.current = this.current.next;
     return this.current;
   }
 
-  // Move to the previous track
+  // Move to the previous track (returns null at the head when repeat is off)
   prevTrack(): TrackNode | null {
-    if (!this.current) return null;
+    if (!this.current || !this.hasPrevious()) return null;
     this.current = this.current.prev;
     return this.current;
   }
 
+  // Get the track that should play once the current one ends
+  getTrackAfterCurrent(): TrackNode | null {
+    if (!this.current) return null;
+    if (this.repeatMode === 'one') return this.current;
+    return this.hasNext() ? this.current.next : null;
+  }
+
+  // Check if current is the last node before wrapping to head
+  isAtTail(): boolean {
+    return this.current !== null && this.current === this.head?.prev;
+  }
+
+  // Check if current is the head
+  isAtHead(): boolean {
+    return this.current !== null && this.current === this.head;
+  }
+
+  // Only "off" treats the ends of the list as boundaries
+  hasNext(): boolean {
+    if (!this.current) return false;
+    return this.repeatMode !== 'off' || !this.isAtTail();
+  }
+
+  hasPrevious(): boolean {
+    if (!this.current) return false;
+    return this.repeatMode !== 'off' || !this.isAtHead();
+  }
+
+  setRepeatMode(mode: RepeatMode): void {
+    this.repeatMode = mode;
+  }
+
+  getRepeatMode(): RepeatMode {
+    return this.repeatMode;
+  }
+
   // Get current track
   getCurrentTrack(): TrackNode | null {
     return this.current;
@@ -111,6 +443,14 @@ export class MusicLinkedList {
     return null;
   }
 
+  // Make a node of this list current; unlike setCurrentTrack this picks that exact
+  // entry when the track appears more than once
+  setCurrentNode(target: TrackNode): TrackNode | null {
+    if (!this.getAllTracks().includes(target)) return null;
+    this.current = target;
+    return target;
+  }
+
   // Get all tracks as array
   getAllTracks(): TrackNode[] {
     if (!this.head) return [];
@@ -126,18 +466,20 @@ export class MusicLinkedList {
     return tracks;
   }
 
-  // Shuffle the playlist
-  shuffle(): void {
+  // Shuffle the playlist ("seeded" and "spread" keep their seed so the order can be replayed)
+  shuffle(options: ShuffleOptions = {}): void {
     if (this.size <= 1) return;
 
-    const tracks = this.getAllTracks();
+    const strategy = options.strategy ?? 'random';
+    const seed = strategy === 'random' ? null : options.seed ?? generateSeed();
     const currentTrack = this.current;
     
-    // Fisher-Yates shuffle algorithm
-    for (let i = tracks.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [tracks[i], tracks[j]] = [tracks[j], tracks[i]];
-    }
+    // Fisher-Yates shuffle, optionally seeded and spread by artist/genre
+    const tracks = shuffleItems(this.getAllTracks(), track => track.id, { strategy, seed: seed ?? undefined });
+    this.shuffleSeed = seed;
+
+    // Mark as shuffled first so the rebuild does not overwrite originalOrder
+    this.isShuffled = true;
 
     // Rebuild the circular linked list with shuffled order
     this.clear();
@@ -150,6 +492,7 @@ export class MusicLinkedList {
         audioUrl: track.audioUrl,
         coverUrl: track.coverUrl,
         genre: track.genre,
+        loudness: track.loudness,
       });
     });
 
@@ -157,8 +500,6 @@ export class MusicLinkedList {
     if (currentTrack) {
       this.setCurrentTrack(currentTrack.id);
     }
-
-    this.isShuffled = true;
   }
 
   // Restore original order
@@ -178,6 +519,7 @@ export class MusicLinkedList {
         audioUrl: track.audioUrl,
         coverUrl: track.coverUrl,
         genre: track.genre,
+        loudness: track.loudness,
       });
     });
 
@@ -187,6 +529,7 @@ export class MusicLinkedList {
     }
 
     this.isShuffled = false;
+    this.shuffleSeed = null;
   }
 
   // Get tracks by genre
@@ -253,6 +596,16 @@ export class MusicLinkedList {
     return this.isShuffled;
   }
 
+  // The order before shuffling, which is the list order itself when unshuffled
+  getOriginalOrder(): TrackNode[] {
+    return [...this.originalOrder];
+  }
+
+  // Seed of the current shuffle (null when unshuffled or purely random)
+  getShuffleSeed(): number | null {
+    return this.shuffleSeed;
+  }
+
   // Remove a track by ID
   removeTrack(trackId: string): boolean {
     if (!this.head || this.size === 0) return false;
@@ -271,10 +624,59 @@ export class MusicLinkedList {
 
     if (!nodeToRemove) return false;
 
+    this.removeNode(nodeToRemove);
+    return true;
+  }
+
+  // Remove the track at a position
+  removeTrackAt(index: number): boolean {
+    const node = this.getNodeAt(index);
+    if (!node) return false;
+
+    this.removeNode(node);
+    return true;
+  }
+
+  // Capture the full list state
+  getSnapshot(): ListSnapshot {
+    const tracks = this.getAllTracks();
+    return {
+      tracks: tracks.map(track => track.toTrackData()),
+      originalOrder: this.originalOrder.map(track => track.toTrackData()),
+      currentIndex: this.current ? tracks.indexOf(this.current) : -1,
+      isShuffled: this.isShuffled,
+      shuffleSeed: this.shuffleSeed,
+    };
+  }
+
+  // Rebuild the list from a snapshot
+  restoreSnapshot(snapshot: ListSnapshot): void {
+    // Suppress originalOrder updates while rebuilding
+    this.isShuffled = true;
+    this.clear();
+    snapshot.tracks.forEach(track => this.addTrack(track));
+
+    this.originalOrder = snapshot.originalOrder.map(track => new TrackNode(track));
+    this.isShuffled = snapshot.isShuffled;
+    this.shuffleSeed = snapshot.shuffleSeed;
+    this.current = this.getNodeAt(snapshot.currentIndex) ?? this.head;
+  }
+
+  // Unlink a node and keep head, current and originalOrder consistent
+  private removeNode(nodeToRemove: TrackNode): void {
+    // A shuffled list must not bring the removed track back on restore
+    if (this.isShuffled) {
+      const index = this.originalOrder.findIndex(track => track.id === nodeToRemove.id);
+      if (index !== -1) {
+        this.originalOrder.splice(index, 1);
+      }
+    }
+
     // Handle single node case
     if (this.size === 1) {
       this.clear();
-      return true;
+      this.updateOriginalOrder();
+      return;
     }
 
     // Update connections
@@ -296,6 +698,5 @@ export class MusicLinkedList {
 
     this.size--;
     this.updateOriginalOrder();
-    return true;
   }
 }
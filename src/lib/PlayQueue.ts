@@ -0,0 +1,198 @@
+import { MusicLinkedList, TrackNode } from './LinkedList';
+
+// Singly linked node for the "Up Next" queue
+export class QueueNode {
+  entryId: number;
+  track: TrackNode;
+  next: QueueNode | null = null;
+
+  constructor(entryId: number, track: TrackNode) {
+    this.entryId = entryId;
+    this.track = track;
+  }
+}
+
+// "Up Next" queue layered on top of a MusicLinkedList.
+// Queued tracks play before the list resumes at current.next,
+// without touching the playlist order itself.
+export class PlayQueue {
+  private list: MusicLinkedList;
+  private head: QueueNode | null = null;
+  private tail: QueueNode | null = null;
+  private size: number = 0;
+  private nextEntryId: number = 1;
+  private nowPlaying: TrackNode | null = null;
+
+  constructor(list: MusicLinkedList) {
+    this.list = list;
+  }
+
+  // Queued tracks get their own node so the playlist's prev/next pointers stay untouched
+  private createNode(track: TrackNode): QueueNode {
+    const copy = new TrackNode({
+      _id: track.id,
+      title: track.title,
+      artist: track.artist,
+      duration: track.duration,
+      audioUrl: track.audioUrl,
+      coverUrl: track.coverUrl,
+      genre: track.genre,
+      loudness: track.loudness,
+    });
+    return new QueueNode(this.nextEntryId++, copy);
+  }
+
+  // Insert a track at the front of the queue
+  playNext(track: TrackNode): void {
+    const node = this.createNode(track);
+    node.next = this.head;
+    this.head = node;
+    if (!this.tail) {
+      this.tail = node;
+    }
+    this.size++;
+  }
+
+  // Append a track to the end of the queue
+  enqueue(track: TrackNode): void {
+    const node = this.createNode(track);
+    if (!this.tail) {
+      this.head = node;
+      this.tail = node;
+    } else {
+      this.tail.next = node;
+      this.tail = node;
+    }
+    this.size++;
+  }
+
+  // Take the track at the front of the queue
+  private dequeue(): TrackNode | null {
+    if (!this.head) return null;
+    const node = this.head;
+    this.head = node.next;
+    if (!this.head) {
+      this.tail = null;
+    }
+    this.size--;
+    return node.track;
+  }
+
+  // Remove a single queue entry
+  removeFromQueue(entryId: number): boolean {
+    let prev: QueueNode | null = null;
+    let node = this.head;
+
+    while (node) {
+      if (node.entryId === entryId) {
+        if (prev) {
+          prev.next = node.next;
+        } else {
+          this.head = node.next;
+        }
+        if (node === this.tail) {
+          this.tail = prev;
+        }
+        this.size--;
+        return true;
+      }
+      prev = node;
+      node = node.next;
+    }
+
+    return false;
+  }
+
+  // Empty the queue (the list keeps its position)
+  clearQueue(): void {
+    this.head = null;
+    this.tail = null;
+    this.size = 0;
+  }
+
+  // Get queued entries in play order
+  getQueue(): QueueNode[] {
+    const entries: QueueNode[] = [];
+    let node = this.head;
+    while (node) {
+      entries.push(node);
+      node = node.next;
+    }
+    return entries;
+  }
+
+  getQueueSize(): number {
+    return this.size;
+  }
+
+  // Check if the current track came from the queue
+  isPlayingFromQueue(): boolean {
+    return this.nowPlaying !== null;
+  }
+
+  // Get the track that is playing right now
+  getCurrentTrack(): TrackNode | null {
+    return this.nowPlaying ?? this.list.getCurrentTrack();
+  }
+
+  // Queued tracks can always be played, even at the end of the list
+  hasNext(): boolean {
+    return this.size > 0 || this.list.hasNext();
+  }
+
+  hasPrevious(): boolean {
+    return this.nowPlaying !== null || this.list.hasPrevious();
+  }
+
+  // Play the next queued track, or resume the list at current.next
+  nextTrack(): TrackNode | null {
+    const queued = this.dequeue();
+    if (queued) {
+      this.nowPlaying = queued;
+      return queued;
+    }
+
+    if (this.nowPlaying) {
+      this.nowPlaying = null;
+    }
+    // At the tail with repeat off: stop instead of wrapping
+    return this.list.nextTrack();
+  }
+
+  // The track nextTrack() would return, without moving (used to preload it)
+  peekNext(): TrackNode | null {
+    if (this.head) return this.head.track;
+    if (!this.list.hasNext()) return null;
+    return this.list.getCurrentTrack()?.next ?? null;
+  }
+
+  // Leave a queued track back to the list position, otherwise follow current.prev
+  prevTrack(): TrackNode | null {
+    if (this.nowPlaying) {
+      this.nowPlaying = null;
+      return this.list.getCurrentTrack();
+    }
+    return this.list.prevTrack();
+  }
+
+  // Play a specific track, e.g. one popped from the playback history.
+  // Tracks still in the list move the list position; others play like a queued track.
+  jumpTo(track: TrackNode): TrackNode {
+    const listNode = this.list.setCurrentNode(track) ?? this.list.setCurrentTrack(track.id);
+    if (listNode) {
+      this.nowPlaying = null;
+      return listNode;
+    }
+    this.nowPlaying = track;
+    return track;
+  }
+
+  // Jump to a track in the list (the queue is kept)
+  selectTrack(trackId: string): TrackNode | null {
+    const track = this.list.setCurrentTrack(trackId);
+    if (track) {
+      this.nowPlaying = null;
+    }
+    return track;
+  }
+}
@@ -0,0 +1,490 @@
+import { TrackNode } from './LinkedList';
+import { Equalizer } from './Equalizer';
+import { EqSettings, FLAT_EQ } from '../../convex/equalizer';
+import { NormalizationMode, TrackLoudness, trackGain } from '../../convex/loudness';
+
+export type FadeCurve = 'linear' | 'equal-power' | 's-curve';
+
+export const MAX_CROSSFADE_SECONDS = 12;
+
+// Start the hand-off timer once the transition is this close (in real seconds)
+const SCHEDULE_AHEAD_SECONDS = 1;
+const CURVE_POINTS = 64;
+// Time constant for normalization changes, e.g. when a measurement arrives mid-track
+const NORMALIZATION_SMOOTHING_SECONDS = 0.5;
+
+export interface PlaybackEvents {
+  // Position of the audible track; counted is false while paused or seeking
+  onTimeUpdate(time: number, counted: boolean): void;
+  onLoadingChange(isLoading: boolean): void;
+  // Real length of the audible track, null until its metadata has loaded
+  onDurationChange(duration: number | null): void;
+  // Downloaded parts of the audible track as [start, end] pairs in seconds
+  onBufferedChange(ranges: [number, number][]): void;
+  // The preloaded next track took over (gapless or crossfaded)
+  onAdvance(track: TrackNode): void;
+  // The track ended without a preloaded next track to hand over to
+  onEnded(): void;
+  onError(): void;
+}
+
+function createAudio(crossOrigin: boolean): HTMLAudioElement {
+  const audio = new Audio();
+  if (crossOrigin) {
+    audio.crossOrigin = 'anonymous';
+  }
+  audio.preload = 'auto';
+  return audio;
+}
+
+function setSource(audio: HTMLAudioElement, url: string | null): void {
+  audio.pause();
+  if (url) {
+    audio.src = url;
+  } else {
+    audio.removeAttribute('src');
+  }
+  audio.load();
+}
+
+// One track slot with its own gain stages, so two tracks can overlap:
+// trim holds the loudness normalization, gain the crossfade.
+// Web Audio only gets samples from other origins when they allow CORS, so a track is
+// first loaded with CORS into the element wired into the graph. Sources that refuse
+// it play on a plain element straight to the speakers instead, as the player did
+// before the engine: no equalizer, normalization, visualizer or crossfade.
+class Deck {
+  readonly graphAudio = createAudio(true);
+  readonly plainAudio = createAudio(false);
+  // The element in use for the current track
+  audio: HTMLAudioElement = this.graphAudio;
+  trim: GainNode | null = null;
+  gain: GainNode | null = null;
+  track: TrackNode | null = null;
+  isReady = false;
+
+  get usesGraph(): boolean {
+    return this.audio === this.graphAudio;
+  }
+
+  load(track: TrackNode | null): void {
+    this.track = track;
+    this.isReady = false;
+    this.audio = this.graphAudio;
+    setSource(this.plainAudio, null);
+    setSource(this.graphAudio, track?.audioUrl ?? null);
+  }
+
+  // Retry a track that failed to load with CORS on the plain element; false if it already was
+  fallBackToPlain(): boolean {
+    if (!this.track || !this.usesGraph) return false;
+    this.isReady = false;
+    setSource(this.graphAudio, null);
+    this.audio = this.plainAudio;
+    setSource(this.plainAudio, this.track.audioUrl);
+    return true;
+  }
+
+  setGain(value: number, context: AudioContext | null): void {
+    if (!this.gain || !context) return;
+    // Cancel from 0 so a fade curve that is already running is dropped too
+    this.gain.gain.cancelScheduledValues(0);
+    this.gain.gain.setValueAtTime(value, context.currentTime);
+  }
+}
+
+function mediaDuration(audio: HTMLAudioElement): number | null {
+  return Number.isFinite(audio.duration) && audio.duration > 0 ? audio.duration : null;
+}
+
+function bufferedRanges(audio: HTMLAudioElement): [number, number][] {
+  const ranges: [number, number][] = [];
+  for (let i = 0; i < audio.buffered.length; i++) {
+    ranges.push([audio.buffered.start(i), audio.buffered.end(i)]);
+  }
+  return ranges;
+}
+
+// Gain curves from 0 to 1; the outgoing track uses the mirror image
+function fadeInCurve(curve: FadeCurve): Float32Array {
+  const points = new Float32Array(CURVE_POINTS);
+  for (let i = 0; i < CURVE_POINTS; i++) {
+    const x = i / (CURVE_POINTS - 1);
+    points[i] = curve === 'equal-power'
+      ? Math.sin((x * Math.PI) / 2)
+      : curve === 's-curve'
+        ? (1 - Math.cos(x * Math.PI)) / 2
+        : x;
+  }
+  return points;
+}
+
+function fadeOutCurve(curve: FadeCurve): Float32Array {
+  // Equal power keeps the summed energy constant, so it mirrors with cos rather than 1 - x
+  return curve === 'equal-power'
+    ? fadeInCurve(curve).reverse()
+    : fadeInCurve(curve).map(value => 1 - value);
+}
+
+// Two-deck playback: the active deck plays the current track while the standby deck
+// preloads the next one, which is started as the current one runs out (gapless) or
+// faded in over the crossfade time. Media elements cannot be started on the
+// AudioContext clock, so the hand-off is a timer against the element's position: gaps
+// are down to a few milliseconds, not sample-accurate.
+export class PlaybackEngine {
+  private decks: [Deck, Deck] = [new Deck(), new Deck()];
+  private active = 0;
+  private context: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private equalizer: Equalizer | null = null;
+  private analyser: AnalyserNode | null = null;
+  private eqSettings: EqSettings = FLAT_EQ;
+  private normalization: NormalizationMode = 'off';
+  private playlistLoudness: TrackLoudness | null = null;
+  // Measurements this player made but may not store, used for tracks without a stored one
+  private localLoudness = new Map<string, TrackLoudness>();
+  private events: PlaybackEvents | null = null;
+  private volume = 1;
+  private playbackRate = 1;
+  private crossfadeSeconds = 0;
+  private fadeCurve: FadeCurve = 'equal-power';
+  private isPlaying = false;
+  private transitionTimer: ReturnType<typeof setTimeout> | null = null;
+  private fadeTimer: ReturnType<typeof setTimeout> | null = null;
+  // Next track requested during a crossfade, loaded once the outgoing deck is free
+  private pendingNext: TrackNode | null | undefined = undefined;
+
+  constructor() {
+    this.decks.forEach(deck => this.attach(deck));
+  }
+
+  setEvents(events: PlaybackEvents): void {
+    this.events = events;
+  }
+
+  private get current(): Deck {
+    return this.decks[this.active];
+  }
+
+  private get standby(): Deck {
+    return this.decks[1 - this.active];
+  }
+
+  private attach(deck: Deck): void {
+    this.attachAudio(deck, deck.graphAudio);
+    this.attachAudio(deck, deck.plainAudio);
+  }
+
+  // Events from the deck's element that is not in use are ignored
+  private attachAudio(deck: Deck, audio: HTMLAudioElement): void {
+    audio.addEventListener('timeupdate', () => {
+      if (deck !== this.current || audio !== deck.audio) return;
+      this.events?.onTimeUpdate(audio.currentTime, !audio.paused && !audio.seeking);
+      this.scheduleTransition();
+    });
+    audio.addEventListener('loadstart', () => {
+      if (deck === this.current && audio === deck.audio) this.events?.onLoadingChange(true);
+    });
+    audio.addEventListener('durationchange', () => {
+      if (deck === this.current && audio === deck.audio) this.events?.onDurationChange(mediaDuration(audio));
+    });
+    audio.addEventListener('progress', () => {
+      if (deck === this.current && audio === deck.audio) this.events?.onBufferedChange(bufferedRanges(audio));
+    });
+    audio.addEventListener('canplay', () => {
+      if (audio !== deck.audio) return;
+      deck.isReady = true;
+      if (deck === this.current) {
+        this.events?.onLoadingChange(false);
+      } else {
+        this.scheduleTransition();
+      }
+    });
+    audio.addEventListener('ended', () => {
+      if (deck !== this.current || audio !== deck.audio) return;
+      this.isPlaying = false;
+      this.cancelTransition();
+      this.events?.onEnded();
+    });
+    audio.addEventListener('error', () => {
+      if (!deck.track || audio !== deck.audio) return;
+      // Most likely a source without CORS headers: play it without the audio graph
+      if (deck.fallBackToPlain()) {
+        deck.audio.playbackRate = this.playbackRate;
+        if (deck === this.current && this.isPlaying) {
+          deck.audio.play().catch(console.error);
+        }
+        return;
+      }
+      if (deck === this.current) {
+        this.events?.onLoadingChange(false);
+        this.events?.onError();
+      } else {
+        // Leave it to the "ended" fallback, which reports the error when it loads again
+        deck.load(null);
+      }
+    });
+  }
+
+  // The audio graph needs a user gesture, so it is built on the first play():
+  // deck -> trim (normalization) -> deck gain -> master gain (volume) -> equalizer
+  // -> analyser (visualizer) -> speakers
+  private ensureContext(): AudioContext {
+    if (!this.context) {
+      this.context = new AudioContext();
+      this.analyser = this.context.createAnalyser();
+      this.analyser.connect(this.context.destination);
+      this.equalizer = new Equalizer(this.context, this.eqSettings);
+      this.equalizer.output.connect(this.analyser);
+      this.master = this.context.createGain();
+      this.master.gain.value = this.volume;
+      this.master.connect(this.equalizer.input);
+      for (const deck of this.decks) {
+        deck.trim = this.context.createGain();
+        deck.trim.gain.value = this.normalizationGain(deck);
+        deck.gain = this.context.createGain();
+        deck.gain.gain.value = deck === this.current ? 1 : 0;
+        this.context.createMediaElementSource(deck.graphAudio).connect(deck.trim);
+        deck.trim.connect(deck.gain);
+        deck.gain.connect(this.master);
+      }
+    }
+    if (this.context.state === 'suspended') {
+      void this.context.resume();
+    }
+    return this.context;
+  }
+
+  // Play a track from the start. A track already preloaded on the standby deck starts
+  // without loading again; the current track is left alone.
+  load(track: TrackNode, autoplay: boolean): void {
+    if (track === this.current.track) return;
+    this.cancelTransition();
+    this.finishFade();
+    if (track === this.standby.track) {
+      this.current.load(null);
+      this.active = 1 - this.active;
+      this.current.audio.currentTime = 0;
+    } else {
+      this.current.load(track);
+      this.applyNormalization(this.current);
+    }
+    this.current.setGain(1, this.context);
+    this.standby.setGain(0, this.context);
+    this.current.audio.playbackRate = this.playbackRate;
+    this.events?.onLoadingChange(!this.current.isReady);
+    this.events?.onTimeUpdate(0, false);
+    this.reportMedia();
+    if (autoplay) {
+      this.play();
+    }
+  }
+
+  // Preload the track that should follow the current one (null when playback should stop)
+  setNext(track: TrackNode | null): void {
+    if (this.fadeTimer !== null) {
+      this.pendingNext = track;
+      return;
+    }
+    if (track === this.standby.track) return;
+    this.cancelTransition();
+    this.standby.load(track);
+    this.applyNormalization(this.standby);
+    this.standby.setGain(0, this.context);
+  }
+
+  play(): void {
+    this.ensureContext();
+    this.isPlaying = true;
+    this.current.audio.playbackRate = this.playbackRate;
+    this.current.audio.play().catch(console.error);
+  }
+
+  pause(): void {
+    this.isPlaying = false;
+    this.cancelTransition();
+    this.finishFade();
+    this.current.audio.pause();
+  }
+
+  // Stop everything, e.g. when the player unmounts
+  stop(): void {
+    this.pause();
+    this.standby.audio.pause();
+  }
+
+  getCurrentTime(): number {
+    return this.current.audio.currentTime;
+  }
+
+  // What is being heard, after volume and equalizer; null until the first play()
+  getAnalyser(): AnalyserNode | null {
+    return this.analyser;
+  }
+
+  // Duration and buffered ranges of a deck that just became the audible one
+  private reportMedia(): void {
+    this.events?.onDurationChange(mediaDuration(this.current.audio));
+    this.events?.onBufferedChange(bufferedRanges(this.current.audio));
+  }
+
+  seek(time: number): void {
+    this.cancelTransition();
+    this.finishFade();
+    this.current.audio.currentTime = time;
+  }
+
+  // Used by repeat-one when nothing was preloaded
+  restart(): void {
+    this.seek(0);
+    this.play();
+  }
+
+  setVolume(volume: number): void {
+    this.volume = volume;
+    // Plain elements bypass the master gain
+    for (const deck of this.decks) {
+      deck.plainAudio.volume = volume;
+    }
+    if (this.master && this.context) {
+      this.master.gain.setValueAtTime(volume, this.context.currentTime);
+    }
+  }
+
+  setEqualizer(settings: EqSettings): void {
+    this.eqSettings = settings;
+    this.equalizer?.apply(settings);
+  }
+
+  // Loudness of the whole list is only used in playlist mode. Call again when a
+  // measurement arrives, so the tracks already loaded pick it up.
+  setNormalization(mode: NormalizationMode, playlistLoudness: TrackLoudness | null): void {
+    this.normalization = mode;
+    this.playlistLoudness = playlistLoudness;
+    this.decks.forEach(deck => this.applyNormalization(deck, true));
+  }
+
+  // Use a measurement for a track in this session only, e.g. one a listener's player made
+  setLocalLoudness(trackId: string, loudness: TrackLoudness): void {
+    this.localLoudness.set(trackId, loudness);
+    this.decks
+      .filter(deck => deck.track?.id === trackId)
+      .forEach(deck => this.applyNormalization(deck, true));
+  }
+
+  private normalizationGain(deck: Deck): number {
+    const { track } = deck;
+    const loudness = track ? track.loudness ?? this.localLoudness.get(track.id) : undefined;
+    return trackGain(this.normalization, loudness, this.playlistLoudness);
+  }
+
+  // Glide to the new gain on a playing track; a freshly loaded one starts at it
+  private applyNormalization(deck: Deck, smooth = false): void {
+    if (!deck.trim || !this.context) return;
+    const gain = this.normalizationGain(deck);
+    const now = this.context.currentTime;
+    deck.trim.gain.cancelScheduledValues(0);
+    if (smooth) {
+      deck.trim.gain.setTargetAtTime(gain, now, NORMALIZATION_SMOOTHING_SECONDS);
+    } else {
+      deck.trim.gain.setValueAtTime(gain, now);
+    }
+  }
+
+  // Playback speed applies to both decks, so the next track starts at the same speed
+  setPlaybackRate(rate: number): void {
+    this.playbackRate = rate;
+    for (const deck of this.decks) {
+      deck.audio.playbackRate = rate;
+    }
+    this.cancelTransition();
+    this.scheduleTransition();
+  }
+
+  setCrossfade(seconds: number, curve: FadeCurve): void {
+    this.crossfadeSeconds = Math.min(MAX_CROSSFADE_SECONDS, Math.max(0, seconds));
+    this.fadeCurve = curve;
+    this.cancelTransition();
+    this.scheduleTransition();
+  }
+
+  // Real seconds until the current track runs out, at the current speed
+  private remainingSeconds(): number {
+    const { audio } = this.current;
+    return (audio.duration - audio.currentTime) / this.playbackRate;
+  }
+
+  // Fade length for this track: never longer than half of it, and none when either
+  // track plays outside the audio graph
+  private fadeSeconds(): number {
+    if (!this.current.usesGraph || !this.standby.usesGraph) return 0;
+    return Math.min(this.crossfadeSeconds, this.current.audio.duration / this.playbackRate / 2);
+  }
+
+  private scheduleTransition(): void {
+    if (this.transitionTimer !== null || this.fadeTimer !== null) return;
+    if (!this.isPlaying || !this.standby.track || !this.standby.isReady) return;
+    if (!Number.isFinite(this.current.audio.duration)) return;
+
+    const lead = this.remainingSeconds() - this.fadeSeconds();
+    if (lead > SCHEDULE_AHEAD_SECONDS) return;
+    this.transitionTimer = setTimeout(() => {
+      this.transitionTimer = null;
+      this.startTransition();
+    }, Math.max(0, lead * 1000));
+  }
+
+  private cancelTransition(): void {
+    if (this.transitionTimer !== null) {
+      clearTimeout(this.transitionTimer);
+      this.transitionTimer = null;
+    }
+  }
+
+  private startTransition(): void {
+    const outgoing = this.current;
+    const incoming = this.standby;
+    const track = incoming.track;
+    if (!track || !this.isPlaying) return;
+
+    const context = this.ensureContext();
+    const fade = Math.min(this.fadeSeconds(), Math.max(0, this.remainingSeconds()));
+    incoming.audio.currentTime = 0;
+    incoming.audio.playbackRate = this.playbackRate;
+    incoming.audio.play().catch(console.error);
+
+    if (fade > 0 && outgoing.gain && incoming.gain) {
+      const now = context.currentTime;
+      outgoing.gain.gain.cancelScheduledValues(0);
+      incoming.gain.gain.cancelScheduledValues(0);
+      outgoing.gain.gain.setValueCurveAtTime(fadeOutCurve(this.fadeCurve), now, fade);
+      incoming.gain.gain.setValueCurveAtTime(fadeInCurve(this.fadeCurve), now, fade);
+      // The outgoing deck keeps playing underneath until the fade is done
+      this.fadeTimer = setTimeout(() => this.finishFade(), fade * 1000);
+    } else {
+      incoming.setGain(1, context);
+      outgoing.setGain(0, context);
+      outgoing.audio.pause();
+    }
+
+    this.active = 1 - this.active;
+    this.events?.onLoadingChange(false);
+    this.reportMedia();
+    this.events?.onAdvance(track);
+  }
+
+  // Cut a running crossfade short: the incoming track takes over at full gain
+  private finishFade(): void {
+    if (this.fadeTimer === null) return;
+    clearTimeout(this.fadeTimer);
+    this.fadeTimer = null;
+    this.standby.audio.pause();
+    this.standby.setGain(0, this.context);
+    this.current.setGain(1, this.context);
+    if (this.pendingNext !== undefined) {
+      const track = this.pendingNext;
+      this.pendingNext = undefined;
+      this.setNext(track);
+    }
+  }
+}
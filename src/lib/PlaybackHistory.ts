@@ -0,0 +1,96 @@
+import { TrackNode } from './LinkedList';
+
+// Doubly linked node for the history stack
+export class HistoryNode {
+  track: TrackNode;
+  playedAt: number;
+  older: HistoryNode | null = null;
+  newer: HistoryNode | null = null;
+
+  constructor(track: TrackNode, playedAt: number) {
+    this.track = track;
+    this.playedAt = playedAt;
+  }
+}
+
+// Bounded stack of the tracks the user actually heard, newest on top.
+// The oldest entry is dropped in O(1) once the capacity is reached.
+export class PlaybackHistory {
+  private top: HistoryNode | null = null;
+  private bottom: HistoryNode | null = null;
+  private size: number = 0;
+  private capacity: number;
+
+  constructor(capacity: number = 50) {
+    this.capacity = Math.max(1, capacity);
+  }
+
+  // Push a track that has just stopped being the current one
+  push(track: TrackNode): void {
+    const node = new HistoryNode(track, Date.now());
+
+    if (!this.top) {
+      this.top = node;
+      this.bottom = node;
+    } else {
+      node.older = this.top;
+      this.top.newer = node;
+      this.top = node;
+    }
+    this.size++;
+
+    // Drop the oldest entry when over capacity
+    if (this.size > this.capacity && this.bottom) {
+      this.bottom = this.bottom.newer;
+      if (this.bottom) {
+        this.bottom.older = null;
+      }
+      this.size--;
+    }
+  }
+
+  // Pop the most recently heard track
+  pop(): TrackNode | null {
+    if (!this.top) return null;
+
+    const node = this.top;
+    this.top = node.older;
+    if (this.top) {
+      this.top.newer = null;
+    } else {
+      this.bottom = null;
+    }
+    this.size--;
+    return node.track;
+  }
+
+  // Peek at the most recently heard track
+  peek(): TrackNode | null {
+    return this.top?.track ?? null;
+  }
+
+  // Get entries from newest to oldest
+  getRecent(limit: number = this.capacity): HistoryNode[] {
+    const entries: HistoryNode[] = [];
+    let node = this.top;
+    while (node && entries.length < limit) {
+      entries.push(node);
+      node = node.older;
+    }
+    return entries;
+  }
+
+  clear(): void {
+    this.top = null;
+    this.bottom = null;
+    this.size = 0;
+  }
+
+  getSize(): number {
+    return this.size;
+  }
+
+  isEmpty(): boolean {
+    return this.size === 0;
+  }
+}
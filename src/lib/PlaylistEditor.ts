@@ -0,0 +1,179 @@
+import { ListSnapshot, MusicLinkedList, TrackData } from './LinkedList';
+import { ShuffleOptions } from '../../convex/shuffle';
+
+// A reversible edit of the playlist
+export interface PlaylistCommand {
+  label: string;
+  execute(): void;
+  undo(): void;
+}
+
+// Records every mutating MusicLinkedList operation as a command
+// so it can be undone and redone.
+export class PlaylistEditor {
+  private list: MusicLinkedList;
+  private undoStack: PlaylistCommand[] = [];
+  private redoStack: PlaylistCommand[] = [];
+  private limit: number;
+
+  constructor(list: MusicLinkedList, limit: number = 100) {
+    this.list = list;
+    this.limit = limit;
+  }
+
+  // Execute a new command; any redo history is discarded
+  private run(command: PlaylistCommand): void {
+    command.execute();
+    this.undoStack.push(command);
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+  }
+
+  // Whole-list edits are undone by restoring the state before them
+  private runSnapshotCommand(label: string, action: () => void): void {
+    const before: ListSnapshot = this.list.getSnapshot();
+    let after: ListSnapshot | null = null;
+
+    this.run({
+      label,
+      execute: () => {
+        if (after) {
+          // Redo replays the exact same result (e.g. the same shuffled order)
+          this.restoreKeepingCurrent(after);
+        } else {
+          action();
+          after = this.list.getSnapshot();
+        }
+      },
+      undo: () => this.restoreKeepingCurrent(before),
+    });
+  }
+
+  // Bring back a snapshot's order without jumping away from the track that is playing
+  private restoreKeepingCurrent(snapshot: ListSnapshot): void {
+    const currentId = this.list.getCurrentTrack()?.id;
+    this.list.restoreSnapshot(snapshot);
+    if (currentId) {
+      this.list.setCurrentTrack(currentId);
+    }
+  }
+
+  addTrack(track: TrackData): void {
+    let index = -1;
+    this.run({
+      label: `Add "${track.title}"`,
+      execute: () => {
+        index = this.list.getSize();
+        // appendTracks also records the track in a shuffled list's original order
+        this.list.appendTracks([track]);
+      },
+      undo: () => {
+        this.list.removeTrackAt(index);
+      },
+    });
+  }
+
+  removeTrack(trackId: string): boolean {
+    return this.removeTrackAt(this.list.indexOf(trackId));
+  }
+
+  // Remove by position, so the right entry goes when a track is listed twice
+  removeTrackAt(index: number): boolean {
+    if (index < 0 || index >= this.list.getSize()) return false;
+
+    const node = this.list.getAllTracks()[index];
+    const track = node.toTrackData();
+    const wasCurrent = this.list.getCurrentTrack() === node;
+
+    this.run({
+      label: `Remove "${track.title}"`,
+      execute: () => {
+        this.list.removeTrackAt(index);
+      },
+      undo: () => {
+        this.list.insertAt(index, track);
+        if (wasCurrent) {
+          this.list.setCurrentNode(this.list.getAllTracks()[index]);
+        }
+      },
+    });
+    return true;
+  }
+
+  moveTrack(trackId: string, toIndex: number): boolean {
+    return this.moveTrackAt(this.list.indexOf(trackId), toIndex);
+  }
+
+  // Move by position, so the right entry moves when a track is listed twice
+  moveTrackAt(fromIndex: number, toIndex: number): boolean {
+    if (fromIndex < 0 || fromIndex >= this.list.getSize()) return false;
+
+    const targetIndex = Math.max(0, Math.min(toIndex, this.list.getSize() - 1));
+    if (targetIndex === fromIndex) return true;
+
+    this.run({
+      label: 'Move track',
+      execute: () => {
+        this.list.moveTrackAt(fromIndex, targetIndex);
+      },
+      undo: () => {
+        this.list.moveTrackAt(targetIndex, fromIndex);
+      },
+    });
+    return true;
+  }
+
+  shuffle(options: ShuffleOptions = {}): void {
+    if (this.list.getSize() <= 1) return;
+    this.runSnapshotCommand('Shuffle', () => this.list.shuffle(options));
+  }
+
+  restoreOrder(): void {
+    if (!this.list.getIsShuffled()) return;
+    this.runSnapshotCommand('Restore order', () => this.list.restoreOrder());
+  }
+
+  clear(): void {
+    if (this.list.isEmpty()) return;
+    this.runSnapshotCommand('Clear playlist', () => this.list.clear());
+  }
+
+  // Replace the whole list, e.g. with a saved session
+  restoreSnapshot(snapshot: ListSnapshot, label: string = 'Open session'): void {
+    this.runSnapshotCommand(label, () => this.list.restoreSnapshot(snapshot));
+  }
+
+  // Undo the last edit, returning its label
+  undo(): string | null {
+    const command = this.undoStack.pop();
+    if (!command) return null;
+    command.undo();
+    this.redoStack.push(command);
+    return command.label;
+  }
+
+  // Redo the last undone edit, returning its label
+  redo(): string | null {
+    const command = this.redoStack.pop();
+    if (!command) return null;
+    command.execute();
+    this.undoStack.push(command);
+    return command.label;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  // Forget all recorded edits
+  clearHistory(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+}
@@ -0,0 +1,116 @@
+import { SILENCE_LUFS, TrackLoudness } from '../../convex/loudness';
+import { WAVEFORM_POINTS } from '../../convex/waveform';
+
+// BS.1770 measurement: 400 ms blocks overlapping by 75%, gated at -70 LUFS and
+// then at 10 LU below the loudness of the blocks that passed
+const BLOCK_SECONDS = 0.4;
+const STEPS_PER_BLOCK = 4;
+const RELATIVE_GATE_LU = 10;
+
+const blockLoudness = (power: number) => -0.691 + 10 * Math.log10(power);
+
+// Render the audio through the K-weighting pre-filter (a high shelf then a high-pass);
+// Web Audio biquads come within a fraction of a dB of the filters in the standard
+async function kWeight(audio: AudioBuffer): Promise<AudioBuffer> {
+  const context = new OfflineAudioContext(audio.numberOfChannels, audio.length, audio.sampleRate);
+  const source = context.createBufferSource();
+  source.buffer = audio;
+  const shelf = context.createBiquadFilter();
+  shelf.type = 'highshelf';
+  shelf.frequency.value = 1681;
+  shelf.gain.value = 4;
+  const highpass = context.createBiquadFilter();
+  highpass.type = 'highpass';
+  highpass.frequency.value = 38;
+  highpass.Q.value = 0.5;
+  source.connect(shelf).connect(highpass).connect(context.destination);
+  source.start();
+  return await context.startRendering();
+}
+
+function samplePeak(audio: AudioBuffer): number {
+  let peak = 0;
+  for (let channel = 0; channel < audio.numberOfChannels; channel++) {
+    for (const sample of audio.getChannelData(channel)) {
+      const level = Math.abs(sample);
+      if (level > peak) peak = level;
+    }
+  }
+  return peak;
+}
+
+// Gated integrated loudness of K-weighted audio, in LUFS
+function integratedLoudness(weighted: AudioBuffer): number {
+  const stepLength = Math.round((weighted.sampleRate * BLOCK_SECONDS) / STEPS_PER_BLOCK);
+  const steps = Math.floor(weighted.length / stepLength);
+
+  // Sum of squares per 100 ms step, added up over the channels (front channels weigh 1)
+  const stepEnergy = new Float64Array(steps);
+  for (let channel = 0; channel < weighted.numberOfChannels; channel++) {
+    const samples = weighted.getChannelData(channel);
+    for (let step = 0; step < steps; step++) {
+      let sum = 0;
+      for (let i = step * stepLength; i < (step + 1) * stepLength; i++) {
+        sum += samples[i] * samples[i];
+      }
+      stepEnergy[step] += sum;
+    }
+  }
+
+  const blockPowers: number[] = [];
+  for (let start = 0; start + STEPS_PER_BLOCK <= steps; start++) {
+    let energy = 0;
+    for (let step = start; step < start + STEPS_PER_BLOCK; step++) {
+      energy += stepEnergy[step];
+    }
+    const power = energy / (stepLength * STEPS_PER_BLOCK);
+    if (blockLoudness(power) > SILENCE_LUFS) {
+      blockPowers.push(power);
+    }
+  }
+  if (blockPowers.length === 0) return SILENCE_LUFS;
+
+  const mean = (powers: number[]) => powers.reduce((sum, power) => sum + power, 0) / powers.length;
+  const threshold = blockLoudness(mean(blockPowers)) - RELATIVE_GATE_LU;
+  const gated = blockPowers.filter(power => blockLoudness(power) > threshold);
+  return Math.max(SILENCE_LUFS, Math.min(0, blockLoudness(mean(gated))));
+}
+
+// Download and decode a track for the measurements below.
+// Fails for audio from origins that do not allow CORS.
+export async function decodeAudio(audioUrl: string): Promise<AudioBuffer> {
+  const response = await fetch(audioUrl);
+  if (!response.ok) {
+    throw new Error(`Could not download audio (${response.status})`);
+  }
+  const encoded = await response.arrayBuffer();
+  // Decoding only needs a context for its sample rate; this one never renders
+  const decoder = new OfflineAudioContext(1, 1, 44100);
+  return await decoder.decodeAudioData(encoded);
+}
+
+export async function measureLoudness(audio: AudioBuffer): Promise<TrackLoudness> {
+  const weighted = await kWeight(audio);
+  return {
+    integratedLufs: integratedLoudness(weighted),
+    peak: samplePeak(audio),
+  };
+}
+
+// Highest level in each of WAVEFORM_POINTS equal slices, over all channels, rounded
+// to keep the stored document small
+export function computeWaveform(audio: AudioBuffer): number[] {
+  const peaks = new Array<number>(WAVEFORM_POINTS).fill(0);
+  const sliceLength = audio.length / WAVEFORM_POINTS;
+  for (let channel = 0; channel < audio.numberOfChannels; channel++) {
+    const samples = audio.getChannelData(channel);
+    for (let point = 0; point < WAVEFORM_POINTS; point++) {
+      const end = Math.floor((point + 1) * sliceLength);
+      for (let i = Math.floor(point * sliceLength); i < end; i++) {
+        const level = Math.abs(samples[i]);
+        if (level > peaks[point]) peaks[point] = level;
+      }
+    }
+  }
+  return peaks.map(peak => Math.round(Math.min(1, peak) * 1000) / 1000);
+}
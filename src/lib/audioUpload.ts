@@ -0,0 +1,66 @@
+import { Id } from '../../convex/_generated/dataModel';
+
+// Only audio files are accepted (the server checks the stored content type again)
+export function isAudioFile(file: File): boolean {
+  return file.type.startsWith('audio/');
+}
+
+// Read the duration (in whole seconds) from the file's own metadata
+export function readAudioDuration(file: File): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const audio = new Audio();
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => {
+      URL.revokeObjectURL(url);
+      if (!Number.isFinite(audio.duration)) {
+        reject(new Error('Could not read the duration of this file'));
+        return;
+      }
+      resolve(Math.round(audio.duration));
+    };
+    audio.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('This file could not be decoded as audio'));
+    };
+    audio.src = url;
+  });
+}
+
+// Guess a title from the file name ("01 - My Song.mp3" -> "My Song")
+export function titleFromFileName(fileName: string): string {
+  return fileName
+    .replace(/\.[^.]+$/, '')
+    .replace(/^\d+\s*[-.]\s*/, '')
+    .replace(/_/g, ' ')
+    .trim();
+}
+
+// POST a file to a Convex upload URL, reporting progress from 0 to 1
+// (fetch has no upload progress events, so this uses XMLHttpRequest)
+export function uploadFile(
+  uploadUrl: string,
+  file: Blob,
+  onProgress: (fraction: number) => void
+): Promise<Id<"_storage">> {
+  return new Promise((resolve, reject) => {
+    const request = new XMLHttpRequest();
+    request.open('POST', uploadUrl);
+    request.setRequestHeader('Content-Type', file.type);
+    request.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress(event.loaded / event.total);
+      }
+    };
+    request.onload = () => {
+      if (request.status < 200 || request.status >= 300) {
+        reject(new Error(`Upload failed with status ${request.status}`));
+        return;
+      }
+      const { storageId } = JSON.parse(request.responseText) as { storageId: Id<"_storage"> };
+      resolve(storageId);
+    };
+    request.onerror = () => reject(new Error('Upload failed'));
+    request.send(file);
+  });
+}
@@ -0,0 +1,157 @@
+// Parsing and downloading playlist files; the exporters are shared with the HTTP API
+import { ExportableTrack, exportM3U, exportPLS, exportXSPF } from '../../convex/playlistFormats';
+
+// One entry read from a playlist file, with the line it came from for error reporting
+export interface PlaylistFileEntry {
+  line: number;
+  location?: string;
+  title?: string;
+  artist?: string;
+  duration?: number;
+  image?: string;
+}
+
+export type PlaylistFormat = 'm3u' | 'pls' | 'xspf';
+
+// Split the "Artist - Title" display name used by M3U and PLS
+function splitDisplayName(name: string): { artist?: string; title?: string } {
+  const separator = name.indexOf(' - ');
+  if (separator === -1) {
+    return { title: name.trim() || undefined };
+  }
+  return {
+    artist: name.slice(0, separator).trim() || undefined,
+    title: name.slice(separator + 3).trim() || undefined,
+  };
+}
+
+// Negative lengths mean "unknown" in M3U and PLS
+function parseLength(value: string): number | undefined {
+  const seconds = parseFloat(value);
+  return Number.isNaN(seconds) || seconds < 0 ? undefined : seconds;
+}
+
+// DOMParser drops positions, so the line of each <track> is found in the raw text
+function trackLines(text: string): number[] {
+  const lines: number[] = [];
+  const pattern = /<track[\s>]/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    lines.push(text.slice(0, match.index).split('\n').length);
+  }
+  return lines;
+}
+
+export function parseXSPF(text: string): PlaylistFileEntry[] {
+  const xml = new DOMParser().parseFromString(text, 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid XSPF file');
+  }
+  const lines = trackLines(text);
+  const field = (track: Element, name: string) =>
+    track.getElementsByTagName(name)[0]?.textContent?.trim() || undefined;
+
+  return [...xml.getElementsByTagName('track')].map((track, index) => {
+    const duration = parseLength(field(track, 'duration') ?? '');
+    return {
+      line: lines[index] ?? 0,
+      location: field(track, 'location'),
+      title: field(track, 'title'),
+      artist: field(track, 'creator'),
+      duration: duration === undefined ? undefined : duration / 1000,
+      image: field(track, 'image'),
+    };
+  });
+}
+
+// Plain and extended M3U; #EXTINF applies to the next location line
+export function parseM3U(text: string): PlaylistFileEntry[] {
+  const entries: PlaylistFileEntry[] = [];
+  let pending: Omit<PlaylistFileEntry, 'line'> | null = null;
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (line === '') return;
+
+    if (line.startsWith('#EXTINF:')) {
+      // #EXTINF:<seconds> [key="value" ...],<Artist - Title>
+      const info = line.slice('#EXTINF:'.length);
+      const comma = info.indexOf(',');
+      const duration = parseLength((comma === -1 ? info : info.slice(0, comma)).split(' ')[0]);
+      pending = { duration, ...(comma === -1 ? {} : splitDisplayName(info.slice(comma + 1))) };
+      return;
+    }
+    if (line.startsWith('#')) return;
+
+    entries.push({ line: index + 1, location: line, ...pending });
+    pending = null;
+  });
+
+  return entries;
+}
+
+// PLS keeps File/Title/Length as numbered keys, in any order
+export function parsePLS(text: string): PlaylistFileEntry[] {
+  const entries = new Map<number, PlaylistFileEntry>();
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const match = /^(File|Title|Length)(\d+)=(.*)$/i.exec(rawLine.trim());
+    if (!match) return;
+    const number = parseInt(match[2], 10);
+    const entry = entries.get(number) ?? { line: index + 1 };
+    const value = match[3].trim();
+    switch (match[1].toLowerCase()) {
+      case 'file':
+        entry.location = value;
+        entry.line = index + 1;
+        break;
+      case 'title':
+        Object.assign(entry, splitDisplayName(value));
+        break;
+      case 'length':
+        entry.duration = parseLength(value);
+        break;
+    }
+    entries.set(number, entry);
+  });
+
+  return [...entries.entries()].sort(([a], [b]) => a - b).map(([, entry]) => entry);
+}
+
+// Pick the parser from the file extension, falling back to the content
+export function parsePlaylistFile(fileName: string, text: string): PlaylistFileEntry[] {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'xspf' || /^\s*<(\?xml|playlist)/i.test(text)) {
+    return parseXSPF(text);
+  }
+  if (extension === 'pls' || /^\s*\[playlist\]/i.test(text)) {
+    return parsePLS(text);
+  }
+  return parseM3U(text);
+}
+
+const FILE_TYPES: Record<PlaylistFormat, { extension: string; mimeType: string }> = {
+  m3u: { extension: 'm3u8', mimeType: 'audio/x-mpegurl' },
+  pls: { extension: 'pls', mimeType: 'audio/x-scpls' },
+  xspf: { extension: 'xspf', mimeType: 'application/xspf+xml' },
+};
+
+// Save text through a temporary download link
+export function downloadText(fileName: string, text: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([text], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function downloadPlaylist(name: string, format: PlaylistFormat, tracks: ExportableTrack[]): void {
+  const text = format === 'm3u'
+    ? exportM3U(tracks)
+    : format === 'pls'
+      ? exportPLS(tracks)
+      : exportXSPF(name, tracks);
+  const { extension, mimeType } = FILE_TYPES[format];
+  downloadText(`${name}.${extension}`, text, mimeType);
+}
@@ -0,0 +1,81 @@
+import { ListSnapshot, MusicLinkedList, RepeatMode, TrackData } from './LinkedList';
+import { TrackLoudness } from '../../convex/loudness';
+
+// Saved player session: the full list state, including the shuffled order,
+// originalOrder and the current track
+export interface ListSession {
+  snapshot: ListSnapshot;
+  repeatMode: RepeatMode;
+  savedAt: number;
+}
+
+const SESSION_FORMAT = 'musiclink-session';
+// Bump when the file layout changes and add a migration to parseSession
+export const SESSION_VERSION = 1;
+
+export function serializeSession(list: MusicLinkedList): string {
+  return JSON.stringify({
+    format: SESSION_FORMAT,
+    version: SESSION_VERSION,
+    savedAt: Date.now(),
+    repeatMode: list.getRepeatMode(),
+    ...list.getSnapshot(),
+  }, null, 2);
+}
+
+function isLoudness(value: unknown): value is TrackLoudness {
+  if (typeof value !== 'object' || value === null) return false;
+  const loudness = value as Record<string, unknown>;
+  return typeof loudness.integratedLufs === 'number' && typeof loudness.peak === 'number';
+}
+
+function isTrackData(value: unknown): value is TrackData {
+  if (typeof value !== 'object' || value === null) return false;
+  const track = value as Record<string, unknown>;
+  return (
+    typeof track._id === 'string' &&
+    typeof track.title === 'string' &&
+    typeof track.artist === 'string' &&
+    typeof track.duration === 'number' &&
+    typeof track.audioUrl === 'string' &&
+    (track.coverUrl === undefined || typeof track.coverUrl === 'string') &&
+    (track.genre === undefined || typeof track.genre === 'string') &&
+    (track.loudness === undefined || isLoudness(track.loudness))
+  );
+}
+
+// Parse and validate a session file; throws with a readable message if it is not one
+export function parseSession(text: string): ListSession {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(text) as Record<string, unknown>;
+  } catch {
+    throw new Error('Session file is not valid JSON');
+  }
+
+  if (data?.format !== SESSION_FORMAT || typeof data.version !== 'number') {
+    throw new Error('Not a MusicLink session file');
+  }
+  if (data.version > SESSION_VERSION) {
+    throw new Error(`Session version ${data.version} is newer than this app supports`);
+  }
+
+  const { tracks, originalOrder, currentIndex, isShuffled, shuffleSeed, repeatMode, savedAt } = data;
+  if (
+    !Array.isArray(tracks) || !tracks.every(isTrackData) ||
+    !Array.isArray(originalOrder) || !originalOrder.every(isTrackData) ||
+    typeof currentIndex !== 'number' ||
+    currentIndex < -1 || currentIndex >= tracks.length ||
+    typeof isShuffled !== 'boolean' ||
+    (shuffleSeed !== null && typeof shuffleSeed !== 'number') ||
+    (repeatMode !== 'off' && repeatMode !== 'all' && repeatMode !== 'one')
+  ) {
+    throw new Error('Session file is damaged');
+  }
+
+  return {
+    snapshot: { tracks, originalOrder, currentIndex, isShuffled, shuffleSeed },
+    repeatMode,
+    savedAt: typeof savedAt === 'number' ? savedAt : 0,
+  };
+}
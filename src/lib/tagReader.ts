@@ -0,0 +1,515 @@
+// Reads embedded tags (ID3v2/ID3v1, FLAC and Ogg Vorbis comments, MP4 atoms) in the browser
+
+export interface TrackArtwork {
+  mimeType: string;
+  data: Uint8Array;
+}
+
+export interface TrackTags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  genre?: string;
+  year?: number;
+  trackNumber?: number;
+  artwork?: TrackArtwork;
+}
+
+// ID3v1 genre list, referenced by index from ID3v2 TCON frames and MP4 "gnre" atoms
+const ID3V1_GENRES = [
+  'Blues', 'Classic Rock', 'Country', 'Dance', 'Disco', 'Funk', 'Grunge', 'Hip-Hop',
+  'Jazz', 'Metal', 'New Age', 'Oldies', 'Other', 'Pop', 'R&B', 'Rap',
+  'Reggae', 'Rock', 'Techno', 'Industrial', 'Alternative', 'Ska', 'Death Metal', 'Pranks',
+  'Soundtrack', 'Euro-Techno', 'Ambient', 'Trip-Hop', 'Vocal', 'Jazz+Funk', 'Fusion', 'Trance',
+  'Classical', 'Instrumental', 'Acid', 'House', 'Game', 'Sound Clip', 'Gospel', 'Noise',
+  'AlternRock', 'Bass', 'Soul', 'Punk', 'Space', 'Meditative', 'Instrumental Pop', 'Instrumental Rock',
+  'Ethnic', 'Gothic', 'Darkwave', 'Techno-Industrial', 'Electronic', 'Pop-Folk', 'Eurodance', 'Dream',
+  'Southern Rock', 'Comedy', 'Cult', 'Gangsta', 'Top 40', 'Christian Rap', 'Pop/Funk', 'Jungle',
+  'Native American', 'Cabaret', 'New Wave', 'Psychadelic', 'Rave', 'Showtunes', 'Trailer', 'Lo-Fi',
+  'Tribal', 'Acid Punk', 'Acid Jazz', 'Polka', 'Retro', 'Musical', 'Rock & Roll', 'Hard Rock',
+];
+
+// ID3v2 picture type / FLAC picture type for the front cover
+const FRONT_COVER = 3;
+
+async function readBytes(file: Blob, start: number, end: number): Promise<Uint8Array> {
+  return new Uint8Array(await file.slice(start, end).arrayBuffer());
+}
+
+function decodeText(bytes: Uint8Array, encoding: string = 'utf-8'): string {
+  return new TextDecoder(encoding).decode(bytes);
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  return decodeText(bytes.subarray(offset, offset + length), 'latin1');
+}
+
+function readUint32BE(bytes: Uint8Array, offset: number): number {
+  return new DataView(bytes.buffer, bytes.byteOffset).getUint32(offset, false);
+}
+
+function readUint32LE(bytes: Uint8Array, offset: number): number {
+  return new DataView(bytes.buffer, bytes.byteOffset).getUint32(offset, true);
+}
+
+function readSyncsafe(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3];
+}
+
+// "2001-05-14" -> 2001
+function parseYear(value: string): number | undefined {
+  const match = /\d{4}/.exec(value);
+  return match ? parseInt(match[0], 10) : undefined;
+}
+
+// "3/12" -> 3
+function parseTrackNumber(value: string): number | undefined {
+  const trackNumber = parseInt(value, 10);
+  return Number.isNaN(trackNumber) ? undefined : trackNumber;
+}
+
+// Resolve "(17)", "17" and "(17)Rock" style genre references
+function parseGenre(value: string): string | undefined {
+  const match = /^\((\d+)\)(.*)$/.exec(value) ?? /^(\d+)()$/.exec(value);
+  if (!match) return value || undefined;
+  return match[2] || ID3V1_GENRES[parseInt(match[1], 10)] || undefined;
+}
+
+// Keep only the fields that were actually found
+function compact(tags: TrackTags): TrackTags {
+  const result: TrackTags = {};
+  for (const [key, value] of Object.entries(tags)) {
+    if (value !== undefined && value !== '') {
+      (result as Record<string, unknown>)[key] = typeof value === 'string' ? value.trim() : value;
+    }
+  }
+  return result;
+}
+
+// ---------- ID3v2 ----------
+
+// Undo ID3 unsynchronisation (0xFF 0x00 -> 0xFF)
+function removeUnsynchronisation(bytes: Uint8Array): Uint8Array {
+  const result: number[] = [];
+  for (let i = 0; i < bytes.length; i++) {
+    result.push(bytes[i]);
+    if (bytes[i] === 0xff && bytes[i + 1] === 0x00) i++;
+  }
+  return Uint8Array.from(result);
+}
+
+const ID3_TEXT_ENCODINGS = ['latin1', 'utf-16', 'utf-16be', 'utf-8'];
+
+// Decode an ID3 text frame body; multiple values are null-separated, so keep the first
+function decodeId3Text(body: Uint8Array): string {
+  const encoding = ID3_TEXT_ENCODINGS[body[0]] ?? 'latin1';
+  return decodeText(body.subarray(1), encoding).split('\0')[0];
+}
+
+// Find the end of a null-terminated string (2-byte terminator for UTF-16)
+function findTerminator(bytes: Uint8Array, offset: number, encodingByte: number): number {
+  const width = encodingByte === 1 || encodingByte === 2 ? 2 : 1;
+  for (let i = offset; i + width <= bytes.length; i += width) {
+    if (bytes[i] === 0 && (width === 1 || bytes[i + 1] === 0)) return i + width;
+  }
+  return bytes.length;
+}
+
+function parseId3Picture(body: Uint8Array, isV22: boolean): { type: number; artwork: TrackArtwork } {
+  const encodingByte = body[0];
+  let offset = 1;
+  let mimeType: string;
+  if (isV22) {
+    // v2.2 PIC frames carry a three-letter image format instead of a MIME type
+    const format = readAscii(body, offset, 3).toLowerCase();
+    mimeType = format === 'png' ? 'image/png' : 'image/jpeg';
+    offset += 3;
+  } else {
+    const end = findTerminator(body, offset, 0);
+    mimeType = readAscii(body, offset, end - offset - 1) || 'image/jpeg';
+    offset = end;
+  }
+  const type = body[offset];
+  offset = findTerminator(body, offset + 1, encodingByte);
+  return { type, artwork: { mimeType, data: body.slice(offset) } };
+}
+
+async function readId3v2(file: Blob, header: Uint8Array): Promise<TrackTags> {
+  const version = header[3];
+  const flags = header[5];
+  const size = readSyncsafe(header, 6);
+  let tag = await readBytes(file, 10, 10 + size);
+  if (version < 4 && flags & 0x80) {
+    tag = removeUnsynchronisation(tag);
+  }
+
+  let offset = 0;
+  if (flags & 0x40) {
+    // Skip the extended header (v2.3 size excludes itself, v2.4 includes it)
+    offset = version === 3 ? readUint32BE(tag, 0) + 4 : readSyncsafe(tag, 0);
+  }
+
+  const isV22 = version === 2;
+  const idLength = isV22 ? 3 : 4;
+  const headerLength = isV22 ? 6 : 10;
+  const tags: TrackTags = {};
+  let coverType = -1;
+
+  while (offset + headerLength <= tag.length) {
+    const id = readAscii(tag, offset, idLength);
+    if (!/^[A-Z0-9]+$/.test(id)) break; // reached padding
+
+    let frameSize: number;
+    if (isV22) {
+      frameSize = (tag[offset + 3] << 16) | (tag[offset + 4] << 8) | tag[offset + 5];
+    } else if (version === 4) {
+      frameSize = readSyncsafe(tag, offset + 4);
+    } else {
+      frameSize = readUint32BE(tag, offset + 4);
+    }
+    const formatFlags = isV22 ? 0 : tag[offset + 9];
+    let body = tag.subarray(offset + headerLength, offset + headerLength + frameSize);
+    offset += headerLength + frameSize;
+
+    // Compressed and encrypted frames are skipped
+    if (version === 3 && formatFlags & 0xc0) continue;
+    if (version === 4) {
+      if (formatFlags & 0x0c) continue;
+      if (formatFlags & 0x40) body = body.subarray(1);
+      if (formatFlags & 0x01) body = body.subarray(4);
+      if (formatFlags & 0x02) body = removeUnsynchronisation(body);
+    }
+    if (body.length === 0) continue;
+
+    switch (id) {
+      case 'TIT2':
+      case 'TT2':
+        tags.title = decodeId3Text(body);
+        break;
+      case 'TPE1':
+      case 'TP1':
+        tags.artist = decodeId3Text(body);
+        break;
+      case 'TALB':
+      case 'TAL':
+        tags.album = decodeId3Text(body);
+        break;
+      case 'TCON':
+      case 'TCO':
+        tags.genre = parseGenre(decodeId3Text(body));
+        break;
+      case 'TRCK':
+      case 'TRK':
+        tags.trackNumber = parseTrackNumber(decodeId3Text(body));
+        break;
+      case 'TYER':
+      case 'TYE':
+      case 'TDRC':
+        tags.year = parseYear(decodeId3Text(body));
+        break;
+      case 'APIC':
+      case 'PIC': {
+        // Prefer the front cover, otherwise keep the first picture
+        const { type, artwork } = parseId3Picture(body, isV22);
+        if (!tags.artwork || (type === FRONT_COVER && coverType !== FRONT_COVER)) {
+          tags.artwork = artwork;
+          coverType = type;
+        }
+        break;
+      }
+    }
+  }
+
+  return tags;
+}
+
+// Fixed 128-byte tag at the end of older MP3s
+async function readId3v1(file: Blob): Promise<TrackTags> {
+  if (file.size < 128) return {};
+  const tag = await readBytes(file, file.size - 128, file.size);
+  if (readAscii(tag, 0, 3) !== 'TAG') return {};
+
+  const field = (start: number, length: number) =>
+    decodeText(tag.subarray(start, start + length), 'latin1').split('\0')[0];
+  // ID3v1.1 stores the track number in the last byte of the comment
+  const trackNumber = tag[125] === 0 && tag[126] !== 0 ? tag[126] : undefined;
+  return {
+    title: field(3, 30),
+    artist: field(33, 30),
+    album: field(63, 30),
+    year: parseYear(field(93, 4)),
+    trackNumber,
+    genre: ID3V1_GENRES[tag[127]],
+  };
+}
+
+// ---------- Vorbis comments (FLAC and Ogg) ----------
+
+// FLAC METADATA_BLOCK_PICTURE layout, also embedded base64-encoded in Vorbis comments
+function parseFlacPicture(block: Uint8Array): { type: number; artwork: TrackArtwork } {
+  const type = readUint32BE(block, 0);
+  const mimeLength = readUint32BE(block, 4);
+  const mimeType = readAscii(block, 8, mimeLength);
+  let offset = 8 + mimeLength;
+  offset += 4 + readUint32BE(block, offset); // description
+  offset += 16; // width, height, colour depth, palette size
+  const dataLength = readUint32BE(block, offset);
+  return { type, artwork: { mimeType, data: block.slice(offset + 4, offset + 4 + dataLength) } };
+}
+
+function decodeBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+// Vendor string followed by "KEY=value" comments, all lengths little-endian
+function parseVorbisComments(bytes: Uint8Array): TrackTags {
+  const tags: TrackTags = {};
+  let offset = 4 + readUint32LE(bytes, 0);
+  const count = readUint32LE(bytes, offset);
+  offset += 4;
+
+  for (let i = 0; i < count && offset + 4 <= bytes.length; i++) {
+    const length = readUint32LE(bytes, offset);
+    const comment = decodeText(bytes.subarray(offset + 4, offset + 4 + length));
+    offset += 4 + length;
+
+    const separator = comment.indexOf('=');
+    if (separator === -1) continue;
+    const key = comment.slice(0, separator).toUpperCase();
+    const value = comment.slice(separator + 1);
+
+    switch (key) {
+      case 'TITLE':
+        tags.title ??= value;
+        break;
+      case 'ARTIST':
+        tags.artist ??= value;
+        break;
+      case 'ALBUM':
+        tags.album ??= value;
+        break;
+      case 'GENRE':
+        tags.genre ??= value;
+        break;
+      case 'DATE':
+      case 'YEAR':
+        tags.year ??= parseYear(value);
+        break;
+      case 'TRACKNUMBER':
+        tags.trackNumber ??= parseTrackNumber(value);
+        break;
+      case 'METADATA_BLOCK_PICTURE':
+        try {
+          tags.artwork ??= parseFlacPicture(decodeBase64(value)).artwork;
+        } catch {
+          // Ignore malformed pictures
+        }
+        break;
+    }
+  }
+
+  return tags;
+}
+
+async function readFlac(file: Blob): Promise<TrackTags> {
+  let tags: TrackTags = {};
+  let artwork: TrackArtwork | undefined;
+  let coverType = -1;
+  let offset = 4;
+
+  // Walk the metadata blocks that precede the audio frames
+  while (offset + 4 <= file.size) {
+    const header = await readBytes(file, offset, offset + 4);
+    const isLast = (header[0] & 0x80) !== 0;
+    const type = header[0] & 0x7f;
+    const length = (header[1] << 16) | (header[2] << 8) | header[3];
+    offset += 4;
+
+    if (type === 4) {
+      tags = { ...parseVorbisComments(await readBytes(file, offset, offset + length)), ...tags };
+    } else if (type === 6) {
+      const picture = parseFlacPicture(await readBytes(file, offset, offset + length));
+      if (!artwork || (picture.type === FRONT_COVER && coverType !== FRONT_COVER)) {
+        artwork = picture.artwork;
+        coverType = picture.type;
+      }
+    }
+
+    offset += length;
+    if (isLast) break;
+  }
+
+  return { ...tags, artwork: artwork ?? tags.artwork };
+}
+
+// Reassemble the second logical packet (the comment header) from the first Ogg pages
+async function readOggCommentPacket(file: Blob): Promise<Uint8Array | null> {
+  const packets: Uint8Array[][] = [[]];
+  let offset = 0;
+
+  while (offset + 27 <= file.size && packets.length <= 2) {
+    const header = await readBytes(file, offset, offset + 27);
+    if (readAscii(header, 0, 4) !== 'OggS') return null;
+    const segmentCount = header[26];
+    const segments = await readBytes(file, offset + 27, offset + 27 + segmentCount);
+    const bodyLength = segments.reduce((sum, length) => sum + length, 0);
+    const body = await readBytes(file, offset + 27 + segmentCount, offset + 27 + segmentCount + bodyLength);
+
+    let position = 0;
+    for (const length of segments) {
+      packets[packets.length - 1].push(body.subarray(position, position + length));
+      position += length;
+      // A segment shorter than 255 bytes ends the packet
+      if (length < 255) packets.push([]);
+    }
+    offset += 27 + segmentCount + bodyLength;
+  }
+
+  if (packets.length < 3) return null;
+  const parts = packets[1];
+  const packet = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    packet.set(part, position);
+    position += part.length;
+  }
+  return packet;
+}
+
+async function readOgg(file: Blob): Promise<TrackTags> {
+  const packet = await readOggCommentPacket(file);
+  if (!packet) return {};
+  if (packet[0] === 3 && readAscii(packet, 1, 6) === 'vorbis') {
+    return parseVorbisComments(packet.subarray(7));
+  }
+  if (readAscii(packet, 0, 8) === 'OpusTags') {
+    return parseVorbisComments(packet.subarray(8));
+  }
+  return {};
+}
+
+// ---------- MP4 / M4A ----------
+
+interface Atom {
+  type: string;
+  start: number; // start of the payload
+  end: number;
+}
+
+// List the atoms laid out in bytes[start, end)
+function listAtoms(bytes: Uint8Array, start: number, end: number): Atom[] {
+  const atoms: Atom[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = readUint32BE(bytes, offset);
+    const type = readAscii(bytes, offset + 4, 4);
+    let headerLength = 8;
+    if (size === 1) {
+      size = readUint32BE(bytes, offset + 8) * 2 ** 32 + readUint32BE(bytes, offset + 12);
+      headerLength = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerLength) break;
+    atoms.push({ type, start: offset + headerLength, end: Math.min(offset + size, end) });
+    offset += size;
+  }
+  return atoms;
+}
+
+function findAtom(bytes: Uint8Array, parent: Atom, type: string): Atom | undefined {
+  return listAtoms(bytes, parent.start, parent.end).find((atom) => atom.type === type);
+}
+
+// Find the top-level "moov" atom without loading the media data around it
+async function readMoov(file: Blob): Promise<Uint8Array | null> {
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const header = await readBytes(file, offset, offset + 16);
+    let size = readUint32BE(header, 0);
+    if (size === 1) {
+      size = readUint32BE(header, 8) * 2 ** 32 + readUint32BE(header, 12);
+    } else if (size === 0) {
+      size = file.size - offset;
+    }
+    if (size < 8) return null;
+    if (readAscii(header, 4, 4) === 'moov') {
+      return readBytes(file, offset, offset + size);
+    }
+    offset += size;
+  }
+  return null;
+}
+
+async function readMp4(file: Blob): Promise<TrackTags> {
+  const moovBytes = await readMoov(file);
+  if (!moovBytes) return {};
+
+  const moov = listAtoms(moovBytes, 0, moovBytes.length)[0];
+  const udta = findAtom(moovBytes, moov, 'udta');
+  const meta = (udta && findAtom(moovBytes, udta, 'meta')) ?? findAtom(moovBytes, moov, 'meta');
+  if (!meta) return {};
+  // "meta" is a full box: skip its version and flags
+  const ilst = findAtom(moovBytes, { ...meta, start: meta.start + 4 }, 'ilst');
+  if (!ilst) return {};
+
+  const tags: TrackTags = {};
+  for (const item of listAtoms(moovBytes, ilst.start, ilst.end)) {
+    const data = findAtom(moovBytes, item, 'data');
+    if (!data) continue;
+    // Payload follows a 4-byte type indicator and a 4-byte locale
+    const dataType = readUint32BE(moovBytes, data.start) & 0xffffff;
+    const payload = moovBytes.subarray(data.start + 8, data.end);
+    const text = () => decodeText(payload);
+
+    switch (item.type) {
+      case '©nam':
+        tags.title = text();
+        break;
+      case '©ART':
+      case 'aART':
+        tags.artist ??= text();
+        break;
+      case '©alb':
+        tags.album = text();
+        break;
+      case '©gen':
+        tags.genre = text();
+        break;
+      case 'gnre':
+        // Big-endian index into the ID3v1 genre list, offset by one
+        tags.genre ??= ID3V1_GENRES[((payload[0] << 8) | payload[1]) - 1];
+        break;
+      case '©day':
+        tags.year = parseYear(text());
+        break;
+      case 'trkn':
+        tags.trackNumber = ((payload[2] << 8) | payload[3]) || undefined;
+        break;
+      case 'covr':
+        tags.artwork = { mimeType: dataType === 14 ? 'image/png' : 'image/jpeg', data: payload.slice() };
+        break;
+    }
+  }
+
+  return tags;
+}
+
+// Read whatever tags the file carries; unknown formats and broken tags yield {}
+export async function readTags(file: Blob): Promise<TrackTags> {
+  try {
+    const header = await readBytes(file, 0, 12);
+    const magic = readAscii(header, 0, 4);
+    if (magic.startsWith('ID3')) {
+      const tags = await readId3v2(file, await readBytes(file, 0, 10));
+      return compact({ ...(await readId3v1(file)), ...compact(tags) });
+    }
+    if (magic === 'fLaC') return compact(await readFlac(file));
+    if (magic === 'OggS') return compact(await readOgg(file));
+    if (readAscii(header, 4, 4) === 'ftyp') return compact(await readMp4(file));
+    return compact(await readId3v1(file));
+  } catch (error) {
+    console.error('Could not read tags', error);
+    return {};
+  }
+}